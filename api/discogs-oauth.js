@@ -1,19 +1,180 @@
 /**
  * Vercel Serverless Function for Discogs OAuth Proxy
- * 
- * This function proxies OAuth requests to Discogs API to avoid CORS issues
- * 
+ *
+ * This function proxies OAuth requests to Discogs API to avoid CORS issues.
+ * It owns the consumer secret and signs every request (HMAC-SHA1), so the
+ * secret never ships inside the app. Clients send only their own token,
+ * token secret, verifier and the endpoint they want.
+ *
+ * Besides the OAuth token exchange it forwards authenticated GET, POST, PUT
+ * and DELETE calls to an allow-list of Discogs endpoints, passing the
+ * upstream status code and rate-limit headers straight back to the app.
+ *
  * To use this:
  * 1. Deploy to Vercel
- * 2. Set environment variables: DISCOGS_CONSUMER_KEY, DISCOGS_CONSUMER_SECRET
+ * 2. Set environment variables: DISCOGS_CONSUMER_KEY, DISCOGS_CONSUMER_SECRET, and
+ *    ALLOWED_ORIGINS if the web app is served from another origin
  * 3. Update the API_URL in your app to point to this function
+ *    (EXPO_PUBLIC_DISCOGS_PROXY_URL; native builds use it too when set)
+ *
+ * Every API call carries the user's OAuth token secret, so only serve this
+ * function over HTTPS.
  */
 
+import crypto from 'crypto';
+
+const DISCOGS_API_URL = 'https://api.discogs.com';
+
+const ALL_METHODS = ['GET', 'POST', 'PUT', 'DELETE'];
+
+// Endpoints the app may reach through the proxy, and with which methods
+const ALLOWED_ENDPOINTS = [
+  // Identity and profile
+  { pattern: /^\/oauth\/identity$/, methods: ['GET'] },
+  { pattern: /^\/users\/[^/]+$/, methods: ['GET'] },
+  // Collection: folders, releases, instances, custom fields and value
+  { pattern: /^\/users\/[^/]+\/collection\/folders(\/\d+(\/releases(\/\d+(\/instances\/\d+(\/fields\/\d+)?)?)?)?)?$/, methods: ALL_METHODS },
+  { pattern: /^\/users\/[^/]+\/collection\/releases\/\d+$/, methods: ['GET'] },
+  { pattern: /^\/users\/[^/]+\/collection\/(fields|value)$/, methods: ['GET'] },
+  // Releases and community ratings
+  { pattern: /^\/releases\/\d+$/, methods: ['GET'] },
+  { pattern: /^\/releases\/\d+\/rating(\/[^/]+)?$/, methods: ['GET', 'PUT', 'DELETE'] },
+  // Masters, artists and labels
+  { pattern: /^\/(masters|artists|labels)\/\d+$/, methods: ['GET'] },
+  // Wantlist
+  { pattern: /^\/users\/[^/]+\/wants(\/\d+)?$/, methods: ALL_METHODS },
+  // Marketplace
+  { pattern: /^\/users\/[^/]+\/inventory$/, methods: ['GET'] },
+  { pattern: /^\/marketplace\/(listings|orders|fee|price_suggestions|stats)(\/[^/]+)*$/, methods: ALL_METHODS },
+];
+
+// Upstream headers passed back so the app's rate limiter sees the real budget
+const PASSTHROUGH_HEADERS = [
+  'x-discogs-ratelimit',
+  'x-discogs-ratelimit-remaining',
+  'x-discogs-ratelimit-used',
+  'retry-after',
+];
+
+const PROXY_HEADER = 'x-discogs-proxy';
+
+/**
+ * Check a browser origin: the web app served alongside this function, this deployment's
+ * URLs, or one listed in ALLOWED_ORIGINS (comma-separated). Native apps send no Origin.
+ */
+function isAllowedOrigin(origin, host) {
+  const deploymentOrigins = [
+    host,
+    process.env.VERCEL_PROJECT_PRODUCTION_URL,
+    process.env.VERCEL_BRANCH_URL,
+    process.env.VERCEL_URL,
+  ]
+    .filter(Boolean)
+    .map((name) => `https://${name}`);
+  const configured = (process.env.ALLOWED_ORIGINS || '')
+    .split(',')
+    .map((allowed) => allowed.trim())
+    .filter(Boolean);
+  return [...deploymentOrigins, ...configured].includes(origin);
+}
+
+/**
+ * Check an endpoint and method against the allow-list
+ */
+function isAllowedEndpoint(endpoint, method) {
+  if (typeof endpoint !== 'string' || /[?#]|\.\./.test(endpoint)) {
+    return false;
+  }
+  return ALLOWED_ENDPOINTS.some(
+    (allowed) => allowed.pattern.test(endpoint) && allowed.methods.includes(method)
+  );
+}
+
+/**
+ * Relay an upstream Discogs response: status, rate-limit headers and body
+ */
+async function relayResponse(upstream, res) {
+  PASSTHROUGH_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value !== null) {
+      res.setHeader(name, value);
+    }
+  });
+
+  const contentType = upstream.headers.get('content-type');
+  if (contentType) {
+    res.setHeader('Content-Type', contentType);
+  }
+
+  // 204 No Content (e.g. after a DELETE) has no body to forward
+  if (upstream.status === 204) {
+    return res.status(204).end();
+  }
+
+  const data = await upstream.text();
+  return res.status(upstream.status).send(data);
+}
+
+/**
+ * Percent-encode a value per RFC 3986
+ */
+function percentEncode(value) {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Build an HMAC-SHA1 signed OAuth header (RFC 5849)
+ */
+function buildAuthHeader({ method, url, consumerKey, consumerSecret, token, tokenSecret, oauthParams = {}, queryParams = {} }) {
+  const params = {
+    oauth_consumer_key: consumerKey,
+    oauth_nonce: crypto.randomBytes(16).toString('hex'),
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: Math.floor(Date.now() / 1000).toString(),
+    ...(token ? { oauth_token: token } : {}),
+    ...oauthParams,
+  };
+
+  const normalizedParams = [...Object.entries(queryParams), ...Object.entries(params)]
+    .map(([key, value]) => [percentEncode(key), percentEncode(String(value))])
+    .sort(([keyA, valueA], [keyB, valueB]) => {
+      if (keyA !== keyB) return keyA < keyB ? -1 : 1;
+      if (valueA !== valueB) return valueA < valueB ? -1 : 1;
+      return 0;
+    })
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const baseString = [method.toUpperCase(), percentEncode(url), percentEncode(normalizedParams)].join('&');
+  const signingKey = `${percentEncode(consumerSecret)}&${percentEncode(tokenSecret || '')}`;
+  params.oauth_signature = crypto.createHmac('sha1', signingKey).update(baseString).digest('base64');
+
+  const header = Object.keys(params)
+    .sort()
+    .map((key) => `${percentEncode(key)}="${percentEncode(params[key])}"`)
+    .join(', ');
+
+  return `OAuth ${header}`;
+}
+
 export default async function handler(req, res) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
+  // Set CORS headers, for the app's own origins only: the proxy signs with the consumer secret
+  const origin = req.headers.origin;
+  if (origin && !isAllowedOrigin(origin, req.headers.host)) {
+    return res.status(403).json({ error: 'Origin not allowed' });
+  }
+  if (origin) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+  }
+  res.setHeader('Vary', 'Origin');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Expose-Headers', [...PASSTHROUGH_HEADERS, PROXY_HEADER].join(', '));
+  // Lets the app tell an upstream 404 apart from a missing deployment
+  res.setHeader(PROXY_HEADER, '1');
 
   // Handle preflight
   if (req.method === 'OPTIONS') {
@@ -33,31 +194,97 @@ export default async function handler(req, res) {
     return res.status(500).json({ error: 'Discogs credentials not configured' });
   }
 
+  const credentials = {
+    consumerKey: DISCOGS_CONSUMER_KEY,
+    consumerSecret: DISCOGS_CONSUMER_SECRET,
+  };
+
   try {
     if (action === 'request_token') {
       // Handle request token
-      const response = await fetch('https://api.discogs.com/oauth/request_token', {
+      if (!params.callback) {
+        return res.status(400).json({ error: 'Missing callback' });
+      }
+
+      const url = `${DISCOGS_API_URL}/oauth/request_token`;
+      const response = await fetch(url, {
         method: 'POST',
         headers: {
-          'Authorization': params.authHeader,
+          'Authorization': buildAuthHeader({
+            ...credentials,
+            method: 'POST',
+            url,
+            oauthParams: { oauth_callback: params.callback },
+          }),
+          'User-Agent': 'VinylRoulette/1.0',
         },
       });
 
-      const data = await response.text();
-      return res.status(200).send(data);
+      return relayResponse(response, res);
     }
 
     if (action === 'access_token') {
       // Handle access token exchange
-      const response = await fetch('https://api.discogs.com/oauth/access_token', {
+      if (!params.token || !params.tokenSecret || !params.verifier) {
+        return res.status(400).json({ error: 'Missing token, tokenSecret or verifier' });
+      }
+
+      const url = `${DISCOGS_API_URL}/oauth/access_token`;
+      const response = await fetch(url, {
         method: 'POST',
         headers: {
-          'Authorization': params.authHeader,
+          'Authorization': buildAuthHeader({
+            ...credentials,
+            method: 'POST',
+            url,
+            token: params.token,
+            tokenSecret: params.tokenSecret,
+            oauthParams: { oauth_verifier: params.verifier },
+          }),
+          'User-Agent': 'VinylRoulette/1.0',
+        },
+      });
+
+      return relayResponse(response, res);
+    }
+
+    if (action === 'api') {
+      // Handle a signed API call on behalf of the user
+      const method = (params.method || 'GET').toUpperCase();
+      if (!params.endpoint || !params.token || !params.tokenSecret) {
+        return res.status(400).json({ error: 'Missing endpoint, token or tokenSecret' });
+      }
+      if (!ALL_METHODS.includes(method)) {
+        return res.status(405).json({ error: `Method ${method} not allowed` });
+      }
+      if (!isAllowedEndpoint(params.endpoint, method)) {
+        return res.status(403).json({ error: `Endpoint not allowed: ${method} ${params.endpoint}` });
+      }
+
+      const url = `${DISCOGS_API_URL}${params.endpoint}`;
+      const queryParams = method === 'GET'
+        ? Object.fromEntries(Object.entries(params.params || {}).map(([key, value]) => [key, String(value)]))
+        : {};
+      const query = new URLSearchParams(queryParams).toString();
+
+      const response = await fetch(query ? `${url}?${query}` : url, {
+        method,
+        headers: {
+          'Authorization': buildAuthHeader({
+            ...credentials,
+            method,
+            url,
+            token: params.token,
+            tokenSecret: params.tokenSecret,
+            queryParams,
+          }),
+          'User-Agent': 'VinylRoulette/1.0',
+          ...(method === 'POST' || method === 'PUT' ? { 'Content-Type': 'application/json' } : {}),
         },
+        body: method === 'POST' || method === 'PUT' ? JSON.stringify(params.params || {}) : undefined,
       });
 
-      const data = await response.text();
-      return res.status(200).send(data);
+      return relayResponse(response, res);
     }
 
     return res.status(400).json({ error: 'Invalid action' });
@@ -67,4 +294,3 @@ export default async function handler(req, res) {
   }
 }
 
-
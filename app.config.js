@@ -1,5 +1,9 @@
 require('dotenv').config();
 
+// When requests are signed by the OAuth proxy (always on Vercel, or whenever a
+// proxy URL is set), the consumer secret stays on the server and out of the bundle
+const usesSigningProxy = Boolean(process.env.EXPO_PUBLIC_DISCOGS_PROXY_URL || process.env.VERCEL);
+
 module.exports = {
   expo: {
     name: "Vinyl Roulette",
@@ -49,7 +53,8 @@ module.exports = {
     },
     extra: {
       discogsConsumerKey: process.env.DISCOGS_CONSUMER_KEY,
-      discogsConsumerSecret: process.env.DISCOGS_CONSUMER_SECRET,
+      discogsConsumerSecret: usesSigningProxy ? undefined : process.env.DISCOGS_CONSUMER_SECRET,
+      discogsSignatureMethod: process.env.DISCOGS_SIGNATURE_METHOD || "HMAC-SHA1",
       eas: {
         projectId: "8b3bae7f-5ddf-4028-aa27-c243966d6b52"
       }
@@ -4,7 +4,7 @@
  * Displays user's entire Discogs collection with sorting and filtering
  */
 
-import React, { useEffect, useState, useMemo } from 'react';
+import React, { useEffect, useRef, useState, useMemo } from 'react';
 import {
   StyleSheet,
   ScrollView,
@@ -22,14 +22,32 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/contexts/AuthContext';
-import { fetchUserCollection } from '@/services/collectionFetcher';
-import { getStoredTokens, initiateAuth, handleAuthCallback } from '@/services/discogsAuth';
-import { CollectionItem } from '@/types';
+import {
+  loadCollections,
+  syncCollections,
+  loadCollectionFolders,
+  filterByFolders,
+  CollectionFolderOption,
+} from '@/services/collectionFetcher';
+import {
+  getLinkedAccounts,
+  getActiveAccount,
+  setActiveAccount,
+  initiateAuth,
+  handleAuthCallback,
+  DiscogsAuthExpiredError,
+} from '@/services/discogsAuth';
+import { CollectionFolderRef, CollectionItem, DiscogsAccount } from '@/types';
 import { Colors } from '@/constants/theme';
+import { GENRE_GROUPS, getGenreGroup, matchesGenreGroup } from '@/constants/taxonomy';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
 type SortOption = 'title' | 'artist' | 'year' | 'dateAdded';
 
+// Which linked collection to show: a Discogs username, or all of them together
+type AccountScope = string | typeof ALL_ACCOUNTS;
+const ALL_ACCOUNTS = '__all__';
+
 export default function ExploreScreen() {
   const router = useRouter();
   const { user } = useAuth();
@@ -42,6 +60,15 @@ export default function ExploreScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<SortOption>('dateAdded');
   const [connecting, setConnecting] = useState(false);
+  const [accounts, setAccounts] = useState<DiscogsAccount[]>([]);
+  const [scope, setScope] = useState<AccountScope | null>(null);
+  // The scope in view right now, for async loads and background syncs to check they still apply
+  const scopeRef = useRef<AccountScope | null>(null);
+  const [folders, setFolders] = useState<CollectionFolderOption[]>([]);
+  // null shows every folder
+  const [folderFilter, setFolderFilter] = useState<CollectionFolderRef | null>(null);
+  // Label of a taxonomy genre group, or null for every genre
+  const [genreFilter, setGenreFilter] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -49,29 +76,90 @@ export default function ExploreScreen() {
     }
   }, [user]);
 
-  const loadCollection = async () => {
+  /**
+   * Resolve which linked accounts a scope covers
+   */
+  const accountsInScope = (linked: DiscogsAccount[], selected: AccountScope | null) => {
+    if (selected === ALL_ACCOUNTS) return linked;
+    const match = linked.filter((account) => account.username === selected);
+    return match.length > 0 ? match : linked.slice(0, 1);
+  };
+
+  /**
+   * Refresh the folder picker for the accounts in view; dropped if another scope was picked meanwhile
+   */
+  const loadFolders = async (scopeAccounts: DiscogsAccount[], forScope: AccountScope) => {
+    try {
+      const nextFolders = await loadCollectionFolders(scopeAccounts);
+      if (scopeRef.current !== forScope) return;
+      setFolders(nextFolders);
+      setFolderFilter((current) =>
+        current &&
+        nextFolders.some((folder) => folder.account === current.account && folder.folderId === current.folderId)
+          ? current
+          : null
+      );
+    } catch (error) {
+      console.error('Error loading collection folders:', error);
+      if (scopeRef.current !== forScope) return;
+      setFolders([]);
+      setFolderFilter(null);
+    }
+  };
+
+  const loadCollection = async (nextScope?: AccountScope) => {
     if (!user) return;
     
+    let selectedScope: AccountScope | null = null;
     try {
       setLoading(true);
       // Check if Discogs is connected
-      const tokens = await getStoredTokens(user.id);
-      if (!tokens) {
+      const linked = await getLinkedAccounts(user.id);
+      setAccounts(linked);
+      if (linked.length === 0) {
         // User hasn't connected Discogs yet
         console.log('No Discogs tokens found for user');
         setCollection([]);
         return;
       }
-      console.log('Fetching collection...');
-      const data = await fetchUserCollection(user.id);
-      console.log(`Collection loaded: ${data.length} items`);
-      setCollection(data);
+
+      const activeAccount = await getActiveAccount(user.id);
+      const loadScope = nextScope ?? scope ?? activeAccount?.username ?? linked[0].username;
+      selectedScope = loadScope;
+      setScope(loadScope);
+      scopeRef.current = loadScope;
+
+      console.log('Loading collection...');
+      const scopeAccounts = accountsInScope(linked, loadScope);
+      // Cached items render right away; the background sync swaps in fresh data
+      // unless the user has switched to another scope by the time it finishes
+      const result = await loadCollections(scopeAccounts, (synced) => {
+        if (scopeRef.current !== loadScope) {
+          console.log('Ignoring background sync for a scope no longer in view');
+          return;
+        }
+        console.log(`Collection synced: ${synced.items.length} items`);
+        setCollection(synced.items);
+        // The sync refreshes folder names and counts too
+        loadFolders(scopeAccounts, loadScope);
+      });
+      if (scopeRef.current !== loadScope) return;
+      console.log(`Collection loaded: ${result.items.length} items`);
+      setCollection(result.items);
+      await loadFolders(scopeAccounts, loadScope);
     } catch (error: any) {
       console.error('Error loading collection:', error);
       console.error('Error details:', {
         message: error.message,
         stack: error.stack,
       });
+      if (error instanceof DiscogsAuthExpiredError) {
+        Alert.alert('Discogs Access Expired', error.message, [
+          { text: 'Reconnect', onPress: handleConnectDiscogs },
+          { text: 'Not now', style: 'cancel' },
+        ]);
+        return;
+      }
       // Show error to user
       Alert.alert(
         'Error Loading Collection',
@@ -79,7 +167,7 @@ export default function ExploreScreen() {
         [
           {
             text: 'Retry',
-            onPress: loadCollection,
+            onPress: () => loadCollection(),
           },
           {
             text: 'OK',
@@ -88,14 +176,64 @@ export default function ExploreScreen() {
         ]
       );
     } finally {
-      setLoading(false);
+      // A load for another scope may have started since; it clears the spinner itself
+      if (selectedScope === null || scopeRef.current === selectedScope) {
+        setLoading(false);
+      }
     }
   };
 
   const onRefresh = async () => {
+    if (!user) return;
+
+    if (accounts.length === 0) return;
+
     setRefreshing(true);
-    await loadCollection();
-    setRefreshing(false);
+    const refreshScope = scope;
+    try {
+      const scopeAccounts = accountsInScope(accounts, refreshScope);
+      const result = await syncCollections(scopeAccounts);
+      if (refreshScope === null || scopeRef.current !== refreshScope) return;
+      setCollection(result.items);
+      await loadFolders(scopeAccounts, refreshScope);
+      if (!result.complete) {
+        Alert.alert(
+          'Partial Collection',
+          `${result.failedPages.length} page(s) of your collection couldn't be loaded. Pull to refresh to resume.`
+        );
+      }
+    } catch (error: any) {
+      console.error('Error refreshing collection:', error);
+      if (error instanceof DiscogsAuthExpiredError) {
+        Alert.alert('Discogs Access Expired', error.message, [
+          { text: 'Reconnect', onPress: handleConnectDiscogs },
+          { text: 'Not now', style: 'cancel' },
+        ]);
+        return;
+      }
+      Alert.alert('Error Refreshing Collection', error.message || 'Failed to sync your Discogs collection.');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleSelectScope = async (nextScope: AccountScope) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const account = accounts.find((linked) => linked.username === nextScope);
+    if (account) {
+      await setActiveAccount(account);
+    }
+    await loadCollection(nextScope);
+  };
+
+  const handleSelectFolder = (folder: CollectionFolderOption | null) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setFolderFilter(folder ? { account: folder.account, folderId: folder.folderId } : null);
+  };
+
+  const handleSelectGenre = (label: string | null) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setGenreFilter(label);
   };
 
   const handleConnectDiscogs = async () => {
@@ -120,7 +258,8 @@ export default function ExploreScreen() {
                 const callbackUrl = await initiateAuth(user.id);
                 const tokens = await handleAuthCallback(callbackUrl);
                 Alert.alert('Success', `Connected as ${tokens.username}`);
-                await loadCollection();
+                // The newly linked account becomes active
+                await loadCollection(tokens.username);
               } catch (error: any) {
                 Alert.alert('Error', error.message || 'Failed to connect Discogs account');
               } finally {
@@ -136,8 +275,33 @@ export default function ExploreScreen() {
     }
   };
 
+  // Only offer genres that something in the collection belongs to
+  const genreOptions = useMemo(
+    () =>
+      GENRE_GROUPS.filter((group) =>
+        collection.some((item) =>
+          matchesGenreGroup(group, item.basic_information.genres, item.basic_information.styles)
+        )
+      ).map((group) => group.label),
+    [collection]
+  );
+
+  // Switching collections can leave the chosen genre with nothing in it
+  useEffect(() => {
+    if (genreFilter && !genreOptions.includes(genreFilter)) {
+      setGenreFilter(null);
+    }
+  }, [genreFilter, genreOptions]);
+
   const filteredAndSortedCollection = useMemo(() => {
-    let filtered = [...collection];
+    let filtered = filterByFolders(collection, folderFilter ? [folderFilter] : []);
+
+    const genreGroup = genreFilter ? getGenreGroup(genreFilter) : undefined;
+    if (genreGroup) {
+      filtered = filtered.filter((item) =>
+        matchesGenreGroup(genreGroup, item.basic_information.genres, item.basic_information.styles)
+      );
+    }
 
     // Apply search filter
     if (searchQuery.trim()) {
@@ -145,7 +309,9 @@ export default function ExploreScreen() {
       filtered = filtered.filter((item) => {
         const title = item.basic_information.title?.toLowerCase() || '';
         const artist = item.basic_information.artists?.[0]?.name?.toLowerCase() || '';
-        const genre = item.basic_information.genres?.join(' ').toLowerCase() || '';
+        const genre = [...(item.basic_information.genres || []), ...(item.basic_information.styles || [])]
+          .join(' ')
+          .toLowerCase();
         return title.includes(query) || artist.includes(query) || genre.includes(query);
       });
     }
@@ -170,7 +336,7 @@ export default function ExploreScreen() {
     });
 
     return filtered;
-  }, [collection, searchQuery, sortBy]);
+  }, [collection, folderFilter, genreFilter, searchQuery, sortBy]);
 
   if (loading && collection.length === 0) {
     return (
@@ -186,6 +352,85 @@ export default function ExploreScreen() {
   return (
     <ThemedView style={styles.container}>
       <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        {accounts.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.accounts}>
+            {accounts.length > 1 && (
+              <TouchableOpacity
+                style={[styles.filterButton, scope === ALL_ACCOUNTS && { backgroundColor: colors.tint }]}
+                onPress={() => handleSelectScope(ALL_ACCOUNTS)}>
+                <ThemedText style={[styles.filterText, scope === ALL_ACCOUNTS && styles.filterTextActive]}>
+                  All collections
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+            {accounts.map((account) => (
+              <TouchableOpacity
+                key={account.username}
+                style={[styles.filterButton, scope === account.username && { backgroundColor: colors.tint }]}
+                onPress={() => handleSelectScope(account.username)}>
+                <ThemedText style={[styles.filterText, scope === account.username && styles.filterTextActive]}>
+                  {account.username}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={styles.filterButton}
+              onPress={handleConnectDiscogs}
+              disabled={connecting}>
+              <ThemedText style={styles.filterText}>+ Link account</ThemedText>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+
+        {folders.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.accounts}>
+            <TouchableOpacity
+              style={[styles.filterButton, folderFilter === null && { backgroundColor: colors.tint }]}
+              onPress={() => handleSelectFolder(null)}>
+              <ThemedText style={[styles.filterText, folderFilter === null && styles.filterTextActive]}>
+                All folders
+              </ThemedText>
+            </TouchableOpacity>
+            {folders.map((folder) => {
+              const selected =
+                folderFilter?.account === folder.account && folderFilter?.folderId === folder.folderId;
+              return (
+                <TouchableOpacity
+                  key={`${folder.account}-${folder.folderId}`}
+                  style={[styles.filterButton, selected && { backgroundColor: colors.tint }]}
+                  onPress={() => handleSelectFolder(folder)}>
+                  <ThemedText style={[styles.filterText, selected && styles.filterTextActive]}>
+                    {scope === ALL_ACCOUNTS ? `${folder.account} · ` : ''}
+                    {folder.name} ({folder.count})
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
+        {genreOptions.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.accounts}>
+            <TouchableOpacity
+              style={[styles.filterButton, genreFilter === null && { backgroundColor: colors.tint }]}
+              onPress={() => handleSelectGenre(null)}>
+              <ThemedText style={[styles.filterText, genreFilter === null && styles.filterTextActive]}>
+                All genres
+              </ThemedText>
+            </TouchableOpacity>
+            {genreOptions.map((label) => (
+              <TouchableOpacity
+                key={label}
+                style={[styles.filterButton, genreFilter === label && { backgroundColor: colors.tint }]}
+                onPress={() => handleSelectGenre(label)}>
+                <ThemedText style={[styles.filterText, genreFilter === label && styles.filterTextActive]}>
+                  {label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
         <TextInput
           style={[styles.searchInput, { borderColor: colors.tint + '40' }]}
           placeholder="Search collection..."
@@ -283,6 +528,10 @@ export default function ExploreScreen() {
             <ThemedText style={styles.emptyText}>
               {searchQuery ? (
                 'No releases found matching your search'
+              ) : genreFilter ? (
+                'No releases in this genre'
+              ) : folderFilter ? (
+                'No releases in this folder'
               ) : (
                 'No releases in your collection. Make sure you have items in your Discogs collection at discogs.com'
               )}
@@ -304,7 +553,7 @@ export default function ExploreScreen() {
           </View>
         ) : (
           filteredAndSortedCollection.map((item) => (
-            <CollectionItemCard key={item.instance_id} item={item} colors={colors} />
+            <CollectionItemCard key={`${item.account}-${item.instance_id}`} item={item} colors={colors} />
           ))
         )}
       </ScrollView>
@@ -389,6 +638,9 @@ const styles = StyleSheet.create({
     backgroundColor: 'transparent',
     color: '#000',
   },
+  accounts: {
+    marginBottom: 12,
+  },
   filtersContainer: {
     marginBottom: 12,
   },
@@ -0,0 +1,335 @@
+/**
+ * History Tab
+ *
+ * Lists the records the user logged with "Spun it", newest first, with
+ * filters by date, artist and genre
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  ScrollView,
+  View,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { Image } from 'expo-image';
+import * as Haptics from 'expo-haptics';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/contexts/AuthContext';
+import { getListeningHistory, ListeningHistoryEntry, SpinReaction } from '@/services/listeningHistory';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+
+type DateRange = 'all' | 'week' | 'month' | 'year';
+
+const DATE_RANGES: { value: DateRange; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'month', label: 'Last 30 days' },
+  { value: 'year', label: 'This year' },
+];
+
+const REACTION_LABELS: Record<SpinReaction, string> = {
+  loved: 'Loved it',
+  liked: 'Liked it',
+  meh: 'Meh',
+  disliked: 'Not for me',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Earliest play time (ms since epoch) a date range lets through
+ */
+function rangeStart(range: DateRange): number {
+  const now = new Date();
+  switch (range) {
+    case 'week':
+      return now.getTime() - 7 * DAY_MS;
+    case 'month':
+      return now.getTime() - 30 * DAY_MS;
+    case 'year':
+      return new Date(now.getFullYear(), 0, 1).getTime();
+    case 'all':
+    default:
+      return 0;
+  }
+}
+
+export default function HistoryScreen() {
+  const { user } = useAuth();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+  const [history, setHistory] = useState<ListeningHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [artistQuery, setArtistQuery] = useState('');
+  const [genre, setGenre] = useState<string | null>(null);
+
+  // Spins are logged from the recommendation screen, so reload whenever the tab comes back
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      let cancelled = false;
+      (async () => {
+        const entries = await getListeningHistory(user.id);
+        if (!cancelled) {
+          setHistory(entries);
+          setLoading(false);
+        }
+      })();
+      return () => {
+        cancelled = true;
+      };
+    }, [user])
+  );
+
+  const genres = useMemo(
+    () => Array.from(new Set(history.flatMap((entry) => entry.genres))).sort(),
+    [history]
+  );
+
+  const filteredHistory = useMemo(() => {
+    const since = rangeStart(dateRange);
+    const query = artistQuery.trim().toLowerCase();
+    return history.filter(
+      (entry) =>
+        new Date(entry.playedAt).getTime() >= since &&
+        (!query || entry.artist.toLowerCase().includes(query)) &&
+        (!genre || entry.genres.includes(genre))
+    );
+  }, [history, dateRange, artistQuery, genre]);
+
+  const selectChip = <T,>(setter: (value: T) => void, value: T) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setter(value);
+  };
+
+  if (loading && history.length === 0 && user) {
+    return (
+      <ThemedView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
+        <TextInput
+          style={[styles.searchInput, { borderColor: colors.tint + '40' }]}
+          placeholder="Filter by artist..."
+          placeholderTextColor="#999"
+          value={artistQuery}
+          onChangeText={setArtistQuery}
+        />
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+          {DATE_RANGES.map((range) => (
+            <TouchableOpacity
+              key={range.value}
+              style={[styles.filterButton, dateRange === range.value && { backgroundColor: colors.tint }]}
+              onPress={() => selectChip(setDateRange, range.value)}>
+              <ThemedText style={[styles.filterText, dateRange === range.value && styles.filterTextActive]}>
+                {range.label}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {genres.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+            <TouchableOpacity
+              style={[styles.filterButton, genre === null && { backgroundColor: colors.tint }]}
+              onPress={() => selectChip(setGenre, null)}>
+              <ThemedText style={[styles.filterText, genre === null && styles.filterTextActive]}>
+                All genres
+              </ThemedText>
+            </TouchableOpacity>
+            {genres.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.filterButton, genre === option && { backgroundColor: colors.tint }]}
+                onPress={() => selectChip(setGenre, option)}>
+                <ThemedText style={[styles.filterText, genre === option && styles.filterTextActive]}>
+                  {option}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        <ThemedText style={styles.countText}>
+          {filteredHistory.length} of {history.length} spins
+        </ThemedText>
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {filteredHistory.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <ThemedText style={styles.emptyText}>
+              {history.length === 0
+                ? 'No spins yet. Tap "Spun it" on a recommendation after you play it.'
+                : 'No spins match these filters'}
+            </ThemedText>
+          </View>
+        ) : (
+          filteredHistory.map((entry) => <HistoryEntryCard key={entry.id} entry={entry} />)
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+function HistoryEntryCard({ entry }: { entry: ListeningHistoryEntry }) {
+  const playedAt = new Date(entry.playedAt);
+
+  return (
+    <View style={styles.card}>
+      {entry.coverImage && (
+        <Image source={{ uri: entry.coverImage }} style={styles.cardImage} contentFit="cover" />
+      )}
+      <View style={styles.cardContent}>
+        <ThemedText style={styles.cardTitle} numberOfLines={2}>
+          {entry.title}
+        </ThemedText>
+        <ThemedText style={styles.cardArtist} numberOfLines={1}>
+          {entry.artist}
+        </ThemedText>
+        <View style={styles.cardMeta}>
+          <ThemedText style={styles.cardDate}>
+            {playedAt.toLocaleDateString()} {playedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </ThemedText>
+          {entry.reaction && (
+            <View style={styles.reactionBadge}>
+              <ThemedText style={styles.reactionBadgeText}>{REACTION_LABELS[entry.reaction]}</ThemedText>
+            </View>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+    backgroundColor: 'transparent',
+    color: '#000',
+  },
+  filters: {
+    marginBottom: 12,
+  },
+  filterButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#000',
+  },
+  filterTextActive: {
+    color: '#000',
+    fontWeight: '700',
+  },
+  countText: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  emptyContainer: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    opacity: 0.8,
+    textAlign: 'center',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: '#f9f9f9',
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  cardImage: {
+    width: 80,
+    height: 80,
+    backgroundColor: '#e0e0e0',
+  },
+  cardContent: {
+    flex: 1,
+    padding: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 4,
+    color: '#000',
+  },
+  cardArtist: {
+    fontSize: 14,
+    opacity: 0.9,
+    marginBottom: 6,
+    color: '#000',
+  },
+  cardMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardDate: {
+    fontSize: 12,
+    opacity: 0.8,
+    color: '#000',
+  },
+  reactionBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#f0f0f0',
+  },
+  reactionBadgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#000',
+  },
+});
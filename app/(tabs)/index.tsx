@@ -1,4 +1,4 @@
-import { StyleSheet, View, TouchableOpacity } from 'react-native';
+import { StyleSheet, View, TouchableOpacity, Alert } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
 import * as Haptics from 'expo-haptics';
@@ -8,13 +8,15 @@ import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useAuth } from '@/contexts/AuthContext';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { initiateAuth, handleAuthCallback } from '@/services/discogsAuth';
 
 export default function HomeScreen() {
   const router = useRouter();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
-  const { user, loading, signOut } = useAuth();
+  const { user, loading, signOut, expiredAccounts, refreshDiscogsLinks } = useAuth();
   const [displayName, setDisplayName] = useState<string>('');
+  const [reconnecting, setReconnecting] = useState(false);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -45,6 +47,24 @@ export default function HomeScreen() {
     router.replace('/login');
   };
 
+  const handleReconnect = async () => {
+    if (!user) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setReconnecting(true);
+    try {
+      // On web this redirects to Discogs and comes back through /oauth/callback
+      const callbackUrl = await initiateAuth(user.id);
+      const tokens = await handleAuthCallback(callbackUrl);
+      await refreshDiscogsLinks();
+      Alert.alert('Reconnected', `Connected as ${tokens.username}`);
+    } catch (error: any) {
+      Alert.alert('Reconnect Failed', error.message || 'Failed to reconnect your Discogs account');
+    } finally {
+      setReconnecting(false);
+    }
+  };
+
   if (loading) {
     return (
       <ThemedView style={styles.container}>
@@ -65,10 +85,33 @@ export default function HomeScreen() {
         <ThemedText type="title" style={styles.title}>
           Vinyl Roulette
         </ThemedText>
-        <TouchableOpacity onPress={handleLogout} style={styles.logoutButton}>
-          <ThemedText style={styles.logoutText}>Logout</ThemedText>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push('/settings');
+            }}
+            style={styles.logoutButton}>
+            <ThemedText style={styles.logoutText}>Settings</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleLogout} style={styles.logoutButton}>
+            <ThemedText style={styles.logoutText}>Logout</ThemedText>
+          </TouchableOpacity>
+        </View>
       </View>
+      {expiredAccounts.length > 0 && (
+        <View style={styles.expiredBanner}>
+          <ThemedText style={styles.expiredText}>
+            Discogs access for {expiredAccounts.map((account) => account.username).join(', ')} has
+            expired or was revoked.
+          </ThemedText>
+          <TouchableOpacity onPress={handleReconnect} disabled={reconnecting} style={styles.reconnectButton}>
+            <ThemedText style={[styles.reconnectText, { color: colors.tint }]}>
+              {reconnecting ? 'Reconnecting...' : 'Reconnect'}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
       <View style={styles.content}>
         <View style={styles.welcomeSection}>
           <ThemedText style={styles.subtitle}>
@@ -108,6 +151,10 @@ const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: '700',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   logoutButton: {
     padding: 8,
   },
@@ -115,6 +162,27 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.7,
   },
+  expiredBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 24,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ff3b30',
+  },
+  expiredText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  reconnectButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  reconnectText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   content: {
     flex: 1,
     justifyContent: 'center',
@@ -23,6 +23,7 @@ export default function RootLayout() {
           <Stack.Screen name="quiz" options={{ title: 'Music Taste Quiz', presentation: 'card', headerBackTitle: 'Home' }} />
           <Stack.Screen name="auth" options={{ title: 'Authenticating', presentation: 'card' }} />
           <Stack.Screen name="recommendation" options={{ title: 'Your Recommendation', presentation: 'card' }} />
+          <Stack.Screen name="settings" options={{ title: 'Settings', presentation: 'card', headerBackTitle: 'Home' }} />
           <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
         </Stack>
         <StatusBar style="auto" />
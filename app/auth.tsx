@@ -9,16 +9,35 @@ import { StyleSheet, View, Alert, Animated, Easing } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { initiateAuth, handleAuthCallback, getStoredTokens } from '@/services/discogsAuth';
-import { fetchUserCollection, fetchMultipleReleaseDetails } from '@/services/collectionFetcher';
-import { filterCollection, broadenFilters, recommendAlbum } from '@/services/recommendationEngine';
-import { QuizAnswers } from '@/types';
+import {
+  initiateAuth,
+  handleAuthCallback,
+  getLinkedAccounts,
+  getActiveAccount,
+  isAccountExpired,
+  DiscogsAuthExpiredError,
+} from '@/services/discogsAuth';
+import { savePendingQuiz, takePendingQuiz } from '@/services/pendingQuiz';
+import { loadCollections, fetchMultipleReleaseDetails, filterByFolders } from '@/services/collectionFetcher';
+import {
+  filterCollection,
+  broadenFilters,
+  drawRecommendations,
+  rescoreRecommendations,
+} from '@/services/recommendationEngine';
+import { getPreferences } from '@/services/preferences';
+import { getRecordActivity, logRecommendation } from '@/services/recommendationLog';
+import { saveRecommendationSet } from '@/services/recommendationSet';
+import { DiscogsAccount, QuizAnswers } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 
+// The pick plus the alternatives the recommendation screen can swipe through
+const RECOMMENDATION_COUNT = 10;
+
 export default function AuthScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { user } = useAuth();
+  const { user, refreshDiscogsLinks } = useAuth();
   const [status, setStatus] = useState<string>('Initializing...');
   const [loading, setLoading] = useState(true);
   const [progress, setProgress] = useState(0);
@@ -44,10 +63,22 @@ export default function AuthScreen() {
         return;
       }
 
-      const existingTokens = await getStoredTokens(user.id);
-      if (existingTokens) {
+      const linkedAccounts = await getLinkedAccounts(user.id);
+      if (linkedAccounts.length > 0) {
+        // Use the collections picked in the quiz, or the active account
+        const scoped = linkedAccounts.filter((account) => quizAnswers.accounts?.includes(account.username));
+        const activeAccount = await getActiveAccount(user.id);
+        const accounts = scoped.length > 0 ? scoped : [activeAccount || linkedAccounts[0]];
+
+        for (const account of accounts) {
+          if (await isAccountExpired(account)) {
+            await reconnectAndResume(quizAnswers, account, accounts);
+            return;
+          }
+        }
+
         setStatus('Already authenticated. Fetching collection...');
-        await fetchAndRecommend(quizAnswers, user.id);
+        await fetchAndRecommend(quizAnswers, accounts);
         return;
       }
 
@@ -58,7 +89,7 @@ export default function AuthScreen() {
       const tokens = await handleAuthCallback(callbackUrl);
 
       setStatus(`Authenticated as ${tokens.username}. Fetching collection...`);
-      await fetchAndRecommend(quizAnswers, user.id);
+      await fetchAndRecommend(quizAnswers, [{ userId: user.id, username: tokens.username }]);
     } catch (error: any) {
       console.error('Auth error:', error);
       Alert.alert(
@@ -80,18 +111,64 @@ export default function AuthScreen() {
     }
   };
 
-  const fetchAndRecommend = async (quizAnswers: QuizAnswers, userId: string) => {
+  /**
+   * Send the user back through Discogs authorization, then pick the quiz up again
+   * On web the page redirects away; /oauth/callback resumes the saved quiz
+   */
+  const reconnectAndResume = async (
+    quizAnswers: QuizAnswers,
+    expiredAccount: DiscogsAccount,
+    accounts: DiscogsAccount[]
+  ) => {
+    if (!user) return;
+
+    setProgress(0);
+    setStatus(`Discogs access for ${expiredAccount.username} has expired. Reconnecting...`);
+    await savePendingQuiz(user.id, quizAnswers);
+
+    const callbackUrl = await initiateAuth(user.id);
+    setStatus('Completing authentication...');
+    const tokens = await handleAuthCallback(callbackUrl);
+    await takePendingQuiz(user.id);
+    await refreshDiscogsLinks();
+
+    // Swap the expired account for whichever one the user just authorized
+    const resumedAccounts = [
+      ...accounts.filter(
+        (account) => account.username !== expiredAccount.username && account.username !== tokens.username
+      ),
+      { userId: user.id, username: tokens.username },
+    ];
+    setStatus(`Reconnected as ${tokens.username}. Fetching collection...`);
+    await fetchAndRecommend(quizAnswers, resumedAccounts);
+  };
+
+  const fetchAndRecommend = async (quizAnswers: QuizAnswers, accounts: DiscogsAccount[]) => {
     try {
       setProgress(10);
-      setStatus('Fetching your collection...');
-      console.log('Starting collection fetch for user:', userId);
-      const collection = await fetchUserCollection(userId);
-      console.log(`Collection fetched: ${collection.length} items`);
+      setStatus(
+        accounts.length > 1
+          ? `Fetching ${accounts.length} collections...`
+          : 'Fetching your collection...'
+      );
+      console.log('Starting collection load for:', accounts.map((account) => account.username).join(', '));
+      // Reads the local cache when there is one; new releases sync in the background
+      const result = await loadCollections(accounts, undefined, {
+        onPageProgress: (completedPages, totalPages) => {
+          setProgress(10 + Math.round((completedPages / totalPages) * 20)); // 10-30%
+          setStatus(`Fetching your collection... page ${completedPages} of ${totalPages}`);
+        },
+      });
+      const collection = filterByFolders(result.items, quizAnswers.folders);
+      console.log(`Collection fetched: ${collection.length} items (${result.complete ? 'complete' : 'partial'})`);
 
       if (collection.length === 0) {
+        const folderScoped = result.items.length > 0;
         Alert.alert(
-          'Empty Collection',
-          "Your Discogs collection appears to be empty. Please make sure:\n\n1. You have releases in your Discogs collection at discogs.com\n2. Your collection is in the default folder (folder 0)\n3. Try refreshing or check the Explore tab",
+          folderScoped ? 'Empty Folders' : 'Empty Collection',
+          folderScoped
+            ? 'The folders you picked have no releases in them. Pick other folders in the quiz, or move records into them at discogs.com.'
+            : 'Your Discogs collection appears to be empty. Please make sure:\n\n1. You have releases in your Discogs collection at discogs.com\n2. Try refreshing or check the Explore tab',
           [
             {
               text: 'OK',
@@ -103,14 +180,19 @@ export default function AuthScreen() {
       }
 
       setProgress(30);
-      setStatus(`Found ${collection.length} releases. Filtering...`);
+      setStatus(
+        result.complete
+          ? `Found ${collection.length} releases. Filtering...`
+          : `Loaded ${collection.length} releases (${result.failedPages.length} pages couldn't be fetched). Filtering...`
+      );
       
-      let filtered = filterCollection(collection, quizAnswers);
+      const preferences = await getPreferences(accounts[0].userId);
+      let filtered = filterCollection(collection, quizAnswers, preferences);
       
       if (filtered.length === 0) {
         setProgress(40);
         setStatus('No exact matches. Broadening filters...');
-        filtered = broadenFilters(collection, quizAnswers);
+        filtered = broadenFilters(collection, quizAnswers, preferences);
       }
 
       if (filtered.length === 0) {
@@ -130,49 +212,68 @@ export default function AuthScreen() {
       setProgress(50);
       setStatus('Fetching release details...');
       
-      const topMatches = filtered.slice(0, 10);
-      const releaseIds = topMatches.map((item) => item.basic_information.id);
-      const releaseDataMap = await fetchMultipleReleaseDetails(releaseIds, (current, total) => {
-        const percentage = Math.round((current / total) * 100);
+      // Draw the picks from the whole filtered collection on its collection data, then
+      // fetch details (tracklist, country) for just those and score them again
+      const activity = await getRecordActivity(accounts[0].userId);
+      const rankingOptions = { ...preferences, activity };
+      const picks = drawRecommendations(filtered, quizAnswers, RECOMMENDATION_COUNT, rankingOptions);
+      const releaseIds = picks.map((item) => item.basic_information.id);
+      const releaseDataMap = await fetchMultipleReleaseDetails(releaseIds, (current, total, { hits }) => {
+        const percentage = total > 0 ? Math.round((current / total) * 100) : 100;
         const progressValue = 50 + Math.round((percentage / 100) * 40); // 50-90%
         setProgress(progressValue);
-        setStatus(`Fetching release details... ${percentage}%`);
-      }, userId);
+        setStatus(
+          hits > 0
+            ? `Fetching release details... ${percentage}% (${hits} cached)`
+            : `Fetching release details... ${percentage}%`
+        );
+      }, accounts[0]);
 
       setProgress(90);
       setStatus('Finding your perfect match...');
       
-      const recommendation = recommendAlbum(filtered, quizAnswers, releaseDataMap);
+      const recommendations = rescoreRecommendations(picks, quizAnswers, releaseDataMap, rankingOptions);
 
-      if (!recommendation) {
+      if (recommendations.length === 0) {
         Alert.alert(
           'Error',
           'Failed to generate recommendation. Please try again.',
           [
             {
               text: 'Retry',
-              onPress: () => fetchAndRecommend(quizAnswers),
+              onPress: () => fetchAndRecommend(quizAnswers, accounts),
             },
           ]
         );
         return;
       }
+      // Alternatives are logged when the user swipes to them
+      await logRecommendation(accounts[0].userId, recommendations[0].releaseData.id);
 
+      // Only the set's ID goes in the route; the screen loads the picks from the store
+      const setId = await saveRecommendationSet(accounts[0].userId, recommendations, quizAnswers);
       router.replace({
         pathname: '/recommendation',
-        params: {
-          recommendation: JSON.stringify(recommendation),
-        },
+        params: { set: setId },
       });
     } catch (error: any) {
       console.error('Fetch error:', error);
+      if (error instanceof DiscogsAuthExpiredError) {
+        try {
+          await reconnectAndResume(quizAnswers, error.account, accounts);
+          return;
+        } catch (reconnectError: any) {
+          console.error('Reconnect error:', reconnectError);
+          error = reconnectError;
+        }
+      }
       Alert.alert(
         'Error',
         error.message || 'Failed to fetch collection. Please try again.',
         [
           {
             text: 'Retry',
-            onPress: () => fetchAndRecommend(quizAnswers),
+            onPress: () => fetchAndRecommend(quizAnswers, accounts),
           },
           {
             text: 'Cancel',
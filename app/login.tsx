@@ -2,7 +2,7 @@
  * Login Screen
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -20,9 +20,11 @@ import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/contexts/AuthContext';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { initiateAuth, handleAuthCallback, getUserProfile } from '@/services/discogsAuth';
+import { initiateAuth, handleAuthCallback } from '@/services/discogsAuth';
+import { getUserProfile } from '@/services/discogsApi';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { signUp as userSignUp, signIn as userSignIn } from '@/services/userAuth';
+import { formatRetryDelay, getLoginRetryAt, LoginThrottledError } from '@/services/loginThrottle';
 
 export default function LoginScreen() {
   const router = useRouter();
@@ -33,6 +35,39 @@ export default function LoginScreen() {
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [discogsLoading, setDiscogsLoading] = useState(false);
+  // When the current email may next try to sign in (ms since epoch), null if now
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [, setTick] = useState(0);
+
+  // Pick up a persisted backoff or lockout for the email being typed
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const nextRetryAt = email ? await getLoginRetryAt(email) : null;
+      if (!cancelled) {
+        setRetryAt(nextRetryAt);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [email]);
+
+  // Re-render every second while waiting so the countdown stays current
+  useEffect(() => {
+    if (retryAt === null) return;
+    const interval = setInterval(() => {
+      if (Date.now() >= retryAt) {
+        setRetryAt(null);
+      } else {
+        setTick((tick) => tick + 1);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const isThrottled = retryAt !== null && retryAt > Date.now();
 
   const handleLogin = async () => {
     if (Platform.OS !== 'web') {
@@ -48,6 +83,9 @@ export default function LoginScreen() {
       await signIn(email, password);
       router.replace('/(tabs)');
     } catch (error: any) {
+      if (error instanceof LoginThrottledError) {
+        setRetryAt(error.retryAt);
+      }
       Alert.alert('Login Failed', error.message || 'Invalid email or password');
     } finally {
       setLoading(false);
@@ -150,7 +188,7 @@ export default function LoginScreen() {
       // Fetch full user profile from Discogs API to get verified username
       let discogsUsername = tokens.username;
       try {
-        const userProfile = await getUserProfile(tokens.username, user.id);
+        const userProfile = await getUserProfile(tokens.username, { userId: user.id, username: tokens.username });
         if (userProfile.username) {
           discogsUsername = userProfile.username;
         }
@@ -232,15 +270,27 @@ export default function LoginScreen() {
               />
             </View>
 
+            {isThrottled && (
+              <ThemedText style={styles.throttleText}>
+                Too many failed attempts. Try again in {formatRetryDelay(retryAt)}.
+              </ThemedText>
+            )}
+
             <TouchableOpacity
-              style={[styles.button, { backgroundColor: colors.tint }]}
+              style={[
+                styles.button,
+                { backgroundColor: colors.tint },
+                isThrottled && styles.buttonDisabled,
+              ]}
               onPress={handleLogin}
-              disabled={loading || discogsLoading}
+              disabled={loading || discogsLoading || isThrottled}
               activeOpacity={0.8}>
               {loading ? (
                 <ActivityIndicator color="#fff" />
               ) : (
-                <ThemedText style={styles.buttonText}>Sign In</ThemedText>
+                <ThemedText style={styles.buttonText}>
+                  {isThrottled ? `Try again in ${formatRetryDelay(retryAt)}` : 'Sign In'}
+                </ThemedText>
               )}
             </TouchableOpacity>
 
@@ -276,7 +326,7 @@ export default function LoginScreen() {
                 router.push('/signup');
               }}>
               <ThemedText style={styles.linkText}>
-                Don't have an account? <ThemedText style={[styles.linkText, { color: colors.tint }]}>Sign Up</ThemedText>
+                Don&apos;t have an account? <ThemedText style={[styles.linkText, { color: colors.tint }]}>Sign Up</ThemedText>
               </ThemedText>
             </TouchableOpacity>
           </View>
@@ -337,6 +387,15 @@ const styles = StyleSheet.create({
     marginTop: 8,
     minHeight: 52,
   },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  throttleText: {
+    fontSize: 14,
+    color: '#ff3b30',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
   buttonText: {
     color: '#000',
     fontSize: 16,
@@ -12,7 +12,8 @@ import { ThemedText } from '@/components/themed-text';
 import { handleAuthCallback } from '@/services/discogsAuth';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getCurrentUser } from '@/services/userAuth';
-import { getUserProfile } from '@/services/discogsAuth';
+import { takePendingQuiz } from '@/services/pendingQuiz';
+import { getUserProfile } from '@/services/discogsApi';
 import { useAuth } from '@/contexts/AuthContext';
 
 export default function OAuthCallbackScreen() {
@@ -90,7 +91,7 @@ export default function OAuthCallbackScreen() {
       // Fetch full user profile from Discogs API
       let discogsUsername = tokens.username;
       try {
-        const userProfile = await getUserProfile(tokens.username, userId || undefined);
+        const userProfile = await getUserProfile(tokens.username, { userId, username: tokens.username });
         if (userProfile.username) {
           discogsUsername = userProfile.username;
         }
@@ -98,13 +99,16 @@ export default function OAuthCallbackScreen() {
         console.log('Could not fetch user profile, using username from tokens:', error);
       }
 
-      // Update user email to use Discogs username
+      // Accounts created by "Sign in with Discogs" take the Discogs username.
+      // Existing users linking another account keep their email and display name.
       const discogsEmail = `${discogsUsername}@discogs.local`;
       const USERS_STORAGE_KEY = 'app_users';
       const usersJson = await AsyncStorage.getItem(USERS_STORAGE_KEY);
+      let isNewDiscogsUser = false;
       if (usersJson && userId) {
         const users = JSON.parse(usersJson);
-        if (users[userId]) {
+        if (users[userId]?.email.startsWith('discogs_temp_')) {
+          isNewDiscogsUser = true;
           users[userId].email = discogsEmail.toLowerCase();
           await AsyncStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(users));
         }
@@ -113,12 +117,24 @@ export default function OAuthCallbackScreen() {
       // Store Discogs username and set as current user
       if (userId) {
         await AsyncStorage.setItem('current_user_id', userId);
-        await AsyncStorage.setItem(`discogs_username_${userId}`, discogsUsername);
+        if (isNewDiscogsUser) {
+          await AsyncStorage.setItem(`discogs_username_${userId}`, discogsUsername);
+        }
       }
 
-      // Refresh auth context
+      // Refresh auth context (this also re-checks which Discogs links have expired)
       await refreshUser();
 
+      // Resume a quiz that was interrupted by an expired Discogs link
+      const pendingAnswers = userId ? await takePendingQuiz(userId) : null;
+      if (pendingAnswers) {
+        router.replace({
+          pathname: '/auth',
+          params: { answers: JSON.stringify(pendingAnswers) },
+        });
+        return;
+      }
+
       // Redirect to home
       router.replace('/(tabs)');
     } catch (error: any) {
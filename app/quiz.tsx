@@ -7,11 +7,15 @@
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { Colors } from '@/constants/theme';
+import { GENRE_GROUPS } from '@/constants/taxonomy';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { QuizAnswers } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { getActiveAccount, getLinkedAccounts } from '@/services/discogsAuth';
+import { CollectionFolderOption, loadCollectionFolders } from '@/services/collectionFetcher';
+import { CollectionFolderRef, DiscogsAccount, QuizAnswers } from '@/types';
 import * as Haptics from 'expo-haptics';
 import { useRouter } from 'expo-router';
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
     ActivityIndicator,
     ScrollView,
@@ -36,26 +40,7 @@ const TEMPOS = [
   { value: 'very-fast', label: 'Very Fast' },
 ] as const;
 
-const GENRES = [
-  'Rock',
-  'Jazz',
-  'Electronic',
-  'Hip Hop',
-  'Classical',
-  'Pop',
-  'Metal',
-  'Folk',
-  'Blues',
-  'Country',
-  'Reggae',
-  'Punk',
-  'R&B',
-  'Soul',
-  'Funk',
-  'Disco',
-  'Alternative',
-  'Indie',
-];
+const GENRES = GENRE_GROUPS.map((group) => group.label);
 
 const DECADES = [
   { value: '1960s', label: '1960s' },
@@ -81,6 +66,15 @@ const LANGUAGES = [
   { value: 'all', label: 'All Languages' },
 ] as const;
 
+// Stops on the best match ↔ surprise me slider
+const SURPRISE_STOPS = [
+  { value: 0, description: 'Stick closely to your answers' },
+  { value: 0.25, description: 'Mostly the closest matches' },
+  { value: 0.5, description: 'A balance of fit and variety' },
+  { value: 0.75, description: 'Leave room for looser matches' },
+  { value: 1, description: 'Anything that fits at all could come up' },
+];
+
 export default function QuizScreen() {
   const router = useRouter();
   const colorScheme = useColorScheme();
@@ -91,7 +85,46 @@ export default function QuizScreen() {
     genres: [],
     format: 'both',
     language: 'all',
+    surprise: 0.5,
   });
+  const { user } = useAuth();
+  const [linkedAccounts, setLinkedAccounts] = useState<DiscogsAccount[]>([]);
+
+  // With several Discogs accounts linked, ask which collection to draw from
+  useEffect(() => {
+    if (!user) return;
+    (async () => {
+      const accounts = await getLinkedAccounts(user.id);
+      const activeAccount = await getActiveAccount(user.id);
+      setLinkedAccounts(accounts);
+      if (activeAccount) {
+        setAnswers((current) => ({ ...current, accounts: current.accounts ?? [activeAccount.username] }));
+      }
+    })();
+  }, [user]);
+
+  // Offer the folders of whichever collections are in scope
+  const [folderOptions, setFolderOptions] = useState<CollectionFolderOption[]>([]);
+  useEffect(() => {
+    const inScope = linkedAccounts.filter((account) => answers.accounts?.includes(account.username));
+    if (inScope.length === 0) return;
+    (async () => {
+      try {
+        const folders = await loadCollectionFolders(inScope);
+        setFolderOptions(folders);
+        // Drop picks from collections that are no longer in scope
+        setAnswers((current) => ({
+          ...current,
+          folders: current.folders?.filter((picked) =>
+            folders.some((folder) => folder.account === picked.account && folder.folderId === picked.folderId)
+          ),
+        }));
+      } catch (error) {
+        console.error('Error loading collection folders:', error);
+        setFolderOptions([]);
+      }
+    })();
+  }, [linkedAccounts, answers.accounts]);
 
   const steps = [
     {
@@ -154,6 +187,43 @@ export default function QuizScreen() {
         />
       ),
     },
+    {
+      title: 'Best match or surprise me?',
+      component: (
+        <SurpriseSelector
+          selected={answers.surprise ?? 0.5}
+          onSelect={(surprise) => setAnswers({ ...answers, surprise })}
+        />
+      ),
+    },
+    ...(linkedAccounts.length > 1
+      ? [
+          {
+            title: 'Which collection?',
+            component: (
+              <CollectionSelector
+                accounts={linkedAccounts}
+                selected={answers.accounts || []}
+                onSelect={(accounts) => setAnswers({ ...answers, accounts })}
+              />
+            ),
+          },
+        ]
+      : []),
+    ...(folderOptions.length > 1
+      ? [
+          {
+            title: 'Which shelves?',
+            component: (
+              <FolderSelector
+                folders={folderOptions}
+                selected={answers.folders || []}
+                onSelect={(folders) => setAnswers({ ...answers, folders })}
+              />
+            ),
+          },
+        ]
+      : []),
   ];
 
   const handleNext = () => {
@@ -452,6 +522,158 @@ function LanguageSelector({
   );
 }
 
+function CollectionSelector({
+  accounts,
+  selected,
+  onSelect,
+}: {
+  accounts: DiscogsAccount[];
+  selected: string[];
+  onSelect: (accounts: string[]) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const allSelected = selected.length === accounts.length;
+  const options = [
+    ...accounts.map((account) => ({ value: [account.username], label: account.username })),
+    { value: accounts.map((account) => account.username), label: 'All Collections' },
+  ];
+
+  return (
+    <View style={styles.optionsGrid}>
+      {options.map((option) => {
+        const isSelected = option.value.length === accounts.length
+          ? allSelected
+          : !allSelected && selected[0] === option.value[0];
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.optionButton,
+              isSelected && { backgroundColor: colors.tint, borderColor: colors.tint },
+            ]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onSelect(option.value);
+            }}
+            activeOpacity={0.7}>
+            <ThemedText style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+function SurpriseSelector({
+  selected,
+  onSelect,
+}: {
+  selected: number;
+  onSelect: (surprise: number) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const current = SURPRISE_STOPS.find((stop) => stop.value === selected) ?? SURPRISE_STOPS[2];
+
+  return (
+    <View>
+      <View style={styles.sliderTrack}>
+        {SURPRISE_STOPS.map((stop) => {
+          const reached = stop.value <= selected;
+          return (
+            <TouchableOpacity
+              key={stop.value}
+              style={styles.sliderStopArea}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                onSelect(stop.value);
+              }}
+              activeOpacity={0.7}>
+              <View
+                style={[
+                  styles.sliderStop,
+                  reached && { backgroundColor: colors.tint, borderColor: colors.tint },
+                  stop.value === selected && styles.sliderStopSelected,
+                ]}
+              />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <View style={styles.sliderLabels}>
+        <ThemedText style={styles.sliderEndLabel}>Best match</ThemedText>
+        <ThemedText style={styles.sliderEndLabel}>Surprise me</ThemedText>
+      </View>
+      <ThemedText style={styles.sliderDescription}>{current.description}</ThemedText>
+    </View>
+  );
+}
+
+function FolderSelector({
+  folders,
+  selected,
+  onSelect,
+}: {
+  folders: CollectionFolderOption[];
+  selected: CollectionFolderRef[];
+  onSelect: (folders: CollectionFolderRef[]) => void;
+}) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const multipleAccounts = new Set(folders.map((folder) => folder.account)).size > 1;
+  const isPicked = (folder: CollectionFolderRef) =>
+    selected.some((picked) => picked.account === folder.account && picked.folderId === folder.folderId);
+
+  const toggle = (folder: CollectionFolderOption) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSelect(
+      isPicked(folder)
+        ? selected.filter((picked) => !(picked.account === folder.account && picked.folderId === folder.folderId))
+        : [...selected, { account: folder.account, folderId: folder.folderId }]
+    );
+  };
+
+  return (
+    <View style={styles.optionsGrid}>
+      <TouchableOpacity
+        style={[
+          styles.optionButton,
+          selected.length === 0 && { backgroundColor: colors.tint, borderColor: colors.tint },
+        ]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          onSelect([]);
+        }}
+        activeOpacity={0.7}>
+        <ThemedText style={[styles.optionText, selected.length === 0 && styles.optionTextSelected]}>
+          Any Folder
+        </ThemedText>
+      </TouchableOpacity>
+      {folders.map((folder) => {
+        const picked = isPicked(folder);
+        return (
+          <TouchableOpacity
+            key={`${folder.account}-${folder.folderId}`}
+            style={[
+              styles.optionButton,
+              picked && { backgroundColor: colors.tint, borderColor: colors.tint },
+            ]}
+            onPress={() => toggle(folder)}
+            activeOpacity={0.7}>
+            <ThemedText style={[styles.optionText, picked && styles.optionTextSelected]}>
+              {multipleAccounts ? `${folder.account} · ` : ''}
+              {folder.name} ({folder.count})
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -548,6 +770,48 @@ const styles = StyleSheet.create({
     color: '#000',
     fontWeight: '700',
   },
+  sliderTrack: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderTopWidth: 2,
+    borderTopColor: '#e0e0e0',
+    marginTop: 16,
+    marginHorizontal: 12,
+  },
+  sliderStopArea: {
+    padding: 8,
+    marginTop: -20,
+  },
+  sliderStop: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#e0e0e0',
+    backgroundColor: '#fff',
+  },
+  sliderStopSelected: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    margin: -4,
+  },
+  sliderLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  sliderEndLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sliderDescription: {
+    fontSize: 15,
+    opacity: 0.8,
+    textAlign: 'center',
+    marginTop: 24,
+  },
   genreGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
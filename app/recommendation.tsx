@@ -1,36 +1,184 @@
 /**
  * Recommendation Screen
  * 
- * Displays the recommended album with cover art, metadata, and explanation
+ * Displays the recommended album with cover art, metadata, and explanation.
+ * The runner-up picks come along, so the user can swipe through them or
+ * reject one without redoing the quiz.
  */
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   StyleSheet,
   ScrollView,
   View,
   TouchableOpacity,
   Linking,
+  Alert,
+  PanResponder,
+  ActivityIndicator,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import { Image } from 'expo-image';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
-import { Recommendation } from '@/types';
+import { QuizAnswers, Recommendation, ReleaseData } from '@/types';
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchReleaseDetails, rateCollectionItem } from '@/services/collectionFetcher';
+import { getActiveAccount } from '@/services/discogsAuth';
+import { recordSpin, setSpinReaction, SpinReaction } from '@/services/listeningHistory';
+import { applyRating } from '@/services/recommendationEngine';
+import { logRecommendation } from '@/services/recommendationLog';
+import { loadRecommendationSet, peekRecommendationSet, updateRecommendationSet } from '@/services/recommendationSet';
+
+const MAX_STARS = 5;
+// Horizontal drag (px) that counts as a swipe to the next or previous pick
+const SWIPE_DISTANCE = 60;
+
+// What the user has done with one pick; kept per pick so swiping doesn't mix them up
+interface PickState {
+  // The rating shown while a change is saving
+  pendingRating?: number;
+  // History entry for this record once the user taps "Spun it"
+  spinEntryId?: string;
+  loggingSpin?: boolean;
+  reaction?: SpinReaction;
+}
+
+const REACTIONS: { value: SpinReaction; label: string }[] = [
+  { value: 'loved', label: 'Loved it' },
+  { value: 'liked', label: 'Liked it' },
+  { value: 'meh', label: 'Meh' },
+  { value: 'disliked', label: 'Not for me' },
+];
 
 export default function RecommendationScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
+  const { user } = useAuth();
+  const setId = params.set as string | undefined;
+  // Picks saved this session show at once; after a reload they're read back from storage
+  const [initialSet] = useState(() => peekRecommendationSet(setId));
+  const [loadingSet, setLoadingSet] = useState(!initialSet);
+  const [candidates, setCandidates] = useState<Recommendation[]>(initialSet?.recommendations ?? []);
+  // The answers only annotate history entries
+  const [quizAnswers, setQuizAnswers] = useState<QuizAnswers | null>(initialSet?.answers ?? null);
+  const [index, setIndex] = useState(0);
+  // Full release details fetched for picks that came without a tracklist
+  const [details, setDetails] = useState<Record<number, ReleaseData>>({});
+  // The first pick was logged when it was made; alternatives are logged as they're shown
+  const loggedIds = useRef(new Set<number>(candidates.slice(0, 1).map((candidate) => candidate.releaseData.id)));
+  // Per-pick rating, spin and reaction, keyed by collection instance (see pickKey)
+  const [pickStates, setPickStates] = useState<Record<number, PickState>>({});
+  // Whether the match score is expanded into its per-criterion breakdown
+  const [showBreakdown, setShowBreakdown] = useState(false);
+
+  useEffect(() => {
+    if (!loadingSet || !user) return;
+    let cancelled = false;
+    (async () => {
+      const set = await loadRecommendationSet(user.id, setId);
+      if (cancelled) return;
+      if (set) {
+        set.recommendations.slice(0, 1).forEach((first) => loggedIds.current.add(first.releaseData.id));
+        setCandidates(set.recommendations);
+        setQuizAnswers(set.answers);
+      }
+      setLoadingSet(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [loadingSet, user, setId]);
+
+  const recommendation = candidates[index] as Recommendation | undefined;
+  const releaseId = recommendation?.releaseData.id;
+
+  // Alternatives may only have the collection's basic data; fill in the tracklist when one is shown
+  const needsDetails =
+    !!recommendation && !recommendation.releaseData.tracklist?.length && !details[recommendation.releaseData.id];
+  const itemAccount = recommendation?.collectionItem.account;
+  useEffect(() => {
+    if (!needsDetails || releaseId === undefined) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const account = user && itemAccount ? { userId: user.id, username: itemAccount } : await getActiveAccount();
+        const releaseData = await fetchReleaseDetails(releaseId, account || undefined);
+        if (!cancelled) {
+          setDetails((current) => ({ ...current, [releaseId]: releaseData }));
+        }
+      } catch (error) {
+        console.error('Error loading release details:', error);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [needsDetails, releaseId, itemAccount, user]);
+
+  useEffect(() => {
+    if (!user || releaseId === undefined || loggedIds.current.has(releaseId)) return;
+    loggedIds.current.add(releaseId);
+    logRecommendation(user.id, releaseId);
+  }, [user, releaseId]);
+
+  /**
+   * Merge changes into one pick's state
+   */
+  const updatePick = (key: number, changes: PickState) => {
+    setPickStates((current) => ({ ...current, [key]: { ...current[key], ...changes } }));
+  };
+
+  const handleNext = () => {
+    if (index >= candidates.length - 1) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIndex(index + 1);
+  };
+
+  const handlePrevious = () => {
+    if (index === 0) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIndex(index - 1);
+  };
+
+  const handleReject = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const remaining = candidates.filter((_, candidateIndex) => candidateIndex !== index);
+    if (remaining.length === 0) {
+      Alert.alert('No More Picks', "That was the last record that fit. Retake the quiz for a fresh set.", [
+        { text: 'Keep This One', style: 'cancel' },
+        { text: 'Retake Quiz', onPress: () => router.replace('/quiz') },
+      ]);
+      return;
+    }
+    setCandidates(remaining);
+    setIndex(Math.min(index, remaining.length - 1));
+  };
+
+  // Rebuilt every render so the handlers see the current pick
+  const swipeResponder = PanResponder.create({
+    onMoveShouldSetPanResponder: (_, gesture) =>
+      Math.abs(gesture.dx) > 10 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+    onPanResponderRelease: (_, gesture) => {
+      if (gesture.dx <= -SWIPE_DISTANCE) handleNext();
+      else if (gesture.dx >= SWIPE_DISTANCE) handlePrevious();
+    },
+  });
 
-  let recommendation: Recommendation;
-  try {
-    recommendation = JSON.parse((params.recommendation as string) || '{}');
-  } catch {
+  if (loadingSet) {
+    return (
+      <ThemedView style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.tint} />
+      </ThemedView>
+    );
+  }
+
+  if (!recommendation) {
     return (
       <ThemedView style={styles.container}>
         <ThemedText>Error loading recommendation</ThemedText>
@@ -38,7 +186,18 @@ export default function RecommendationScreen() {
     );
   }
 
-  const { releaseData, matchScore, reasons } = recommendation;
+  const { matchScore, reasons, collectionItem } = recommendation;
+  // Picks passed in before breakdowns existed have none
+  const breakdown = recommendation.breakdown ?? [];
+  const releaseData = details[recommendation.releaseData.id] || recommendation.releaseData;
+  const customFields = collectionItem?.custom_fields;
+  const copyDetails = customFields
+    ? [
+        { label: 'Media', value: customFields.mediaCondition },
+        { label: 'Sleeve', value: customFields.sleeveCondition },
+        ...Object.entries(customFields.other).map(([label, value]) => ({ label, value })),
+      ].filter((detail): detail is { label: string; value: string } => !!detail.value)
+    : [];
   const coverImage = releaseData.images?.[0]?.uri || releaseData.images?.[0]?.resource_url;
   const artistName = releaseData.artists?.[0]?.name || 'Unknown Artist';
   const tracklist = releaseData.tracklist?.slice(0, 10) || [];
@@ -55,12 +214,81 @@ export default function RecommendationScreen() {
     }
   };
 
+  // Points shown to a tenth, without a trailing ".0"
+  const formatPoints = (points: number): string => String(Math.round(points * 10) / 10);
+
   const handleViewOnDiscogs = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     const discogsUrl = `https://www.discogs.com/release/${releaseData.id}`;
     Linking.openURL(discogsUrl);
   };
 
+  // The collection instance, or the release for a pick that came without one
+  const pickKey = collectionItem?.instance_id ?? releaseData.id;
+  const pickState = pickStates[pickKey] ?? {};
+  const currentRating = pickState.pendingRating ?? collectionItem?.rating ?? 0;
+  const savingRating = pickState.pendingRating !== undefined;
+
+  const handleRate = async (stars: number) => {
+    if (!collectionItem || savingRating) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    // Tapping the current rating again clears it
+    const next = stars === currentRating ? 0 : stars;
+    updatePick(pickKey, { pendingRating: next });
+    try {
+      const account =
+        user && collectionItem.account
+          ? { userId: user.id, username: collectionItem.account }
+          : await getActiveAccount();
+      if (!account) {
+        throw new Error('No Discogs account linked');
+      }
+      await rateCollectionItem(collectionItem, next, account);
+      // Keep the rating, and the score it feeds, on the pick itself and in the saved set,
+      // so it survives swiping away and back and reopening the set
+      const rated = (picks: Recommendation[]) =>
+        picks.map((candidate) =>
+          candidate.collectionItem?.instance_id === collectionItem.instance_id ? applyRating(candidate, next) : candidate
+        );
+      setCandidates(rated);
+      if (user) {
+        await updateRecommendationSet(user.id, setId, rated);
+      }
+    } catch (error: any) {
+      console.error('Error saving rating:', error);
+      Alert.alert('Rating Not Saved', error.message || 'Could not save your rating to Discogs.');
+    } finally {
+      // Dropping the pending rating rolls a failed save back to the stored one
+      updatePick(pickKey, { pendingRating: undefined });
+    }
+  };
+
+  const handleSpunIt = async () => {
+    if (!user || pickState.spinEntryId || pickState.loggingSpin) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    updatePick(pickKey, { loggingSpin: true });
+    try {
+      const entry = await recordSpin(user.id, releaseData, collectionItem, quizAnswers);
+      updatePick(pickKey, { spinEntryId: entry.id });
+    } catch (error: any) {
+      console.error('Error logging spin:', error);
+      Alert.alert('Error', 'Could not add this record to your listening history.');
+    } finally {
+      updatePick(pickKey, { loggingSpin: false });
+    }
+  };
+
+  const handleReaction = async (value: SpinReaction) => {
+    const { spinEntryId, reaction } = pickState;
+    if (!user || !spinEntryId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Tapping the chosen reaction again clears it
+    const next = reaction === value ? undefined : value;
+    updatePick(pickKey, { reaction: next });
+    await setSpinReaction(user.id, spinEntryId, next);
+  };
+
   const handleNewQuiz = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     router.replace('/quiz');
@@ -72,16 +300,45 @@ export default function RecommendationScreen() {
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}>
-        {coverImage && (
-          <View style={styles.coverContainer}>
-            <Image
-              source={{ uri: coverImage }}
-              style={styles.coverImage}
-              contentFit="cover"
-              transition={200}
-            />
+        <View {...swipeResponder.panHandlers}>
+          {coverImage && (
+            <View style={styles.coverContainer}>
+              <Image
+                source={{ uri: coverImage }}
+                style={styles.coverImage}
+                contentFit="cover"
+                transition={200}
+              />
+            </View>
+          )}
+
+          <View style={styles.pickNavigator}>
+            <TouchableOpacity
+              style={[styles.pickArrow, index === 0 && styles.pickArrowDisabled]}
+              onPress={handlePrevious}
+              disabled={index === 0}
+              accessibilityLabel="Previous pick"
+              activeOpacity={0.6}>
+              <ThemedText style={styles.pickArrowText}>‹</ThemedText>
+            </TouchableOpacity>
+            <View style={styles.pickInfo}>
+              <ThemedText style={styles.pickCount}>
+                Pick {index + 1} of {candidates.length}
+              </ThemedText>
+              <TouchableOpacity onPress={handleReject} activeOpacity={0.6}>
+                <ThemedText style={[styles.rejectText, { color: colors.tint }]}>Not this one</ThemedText>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity
+              style={[styles.pickArrow, index >= candidates.length - 1 && styles.pickArrowDisabled]}
+              onPress={handleNext}
+              disabled={index >= candidates.length - 1}
+              accessibilityLabel="Next pick"
+              activeOpacity={0.6}>
+              <ThemedText style={styles.pickArrowText}>›</ThemedText>
+            </TouchableOpacity>
           </View>
-        )}
+        </View>
 
         <View style={styles.infoContainer}>
           <ThemedText type="title" style={styles.albumTitle}>
@@ -104,7 +361,68 @@ export default function RecommendationScreen() {
             </View>
           )}
 
-          <View style={styles.scoreContainer}>
+          {collectionItem && (
+            <View style={styles.ratingContainer}>
+              <ThemedText style={styles.ratingLabel}>Your rating</ThemedText>
+              <View style={styles.stars}>
+                {Array.from({ length: MAX_STARS }, (_, index) => index + 1).map((stars) => (
+                  <TouchableOpacity
+                    key={stars}
+                    onPress={() => handleRate(stars)}
+                    disabled={savingRating}
+                    accessibilityLabel={`Rate ${stars} star${stars === 1 ? '' : 's'}`}
+                    activeOpacity={0.6}>
+                    <ThemedText style={[styles.star, stars <= currentRating && { color: colors.tint }]}>
+                      {stars <= currentRating ? '★' : '☆'}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {user && (
+            <View style={styles.spinContainer}>
+              {pickState.spinEntryId ? (
+                <>
+                  <ThemedText style={[styles.ratingLabel, styles.spinLabel]}>
+                    Logged to your history. How was it?
+                  </ThemedText>
+                  <View style={styles.reactions}>
+                    {REACTIONS.map((option) => (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.reactionChip,
+                          { borderColor: colors.tint + '60' },
+                          pickState.reaction === option.value && { backgroundColor: colors.tint, borderColor: colors.tint },
+                        ]}
+                        onPress={() => handleReaction(option.value)}
+                        activeOpacity={0.7}>
+                        <ThemedText style={[styles.reactionText, pickState.reaction === option.value && { color: '#000' }]}>
+                          {option.label}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.secondaryButton, { borderColor: colors.tint }]}
+                  onPress={handleSpunIt}
+                  disabled={pickState.loggingSpin}
+                  activeOpacity={0.7}>
+                  <ThemedText style={[styles.actionButtonText, { color: colors.tint }]}>Spun it</ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={styles.scoreContainer}
+            onPress={() => setShowBreakdown((shown) => !shown)}
+            disabled={breakdown.length === 0}
+            activeOpacity={0.8}>
             <ThemedText style={styles.scoreLabel}>Match Score</ThemedText>
             <View style={styles.scoreBar}>
               <View
@@ -115,7 +433,39 @@ export default function RecommendationScreen() {
               />
             </View>
             <ThemedText style={[styles.scoreValue, { color: getScoreColor(matchScore) }]}>{matchScore}/100</ThemedText>
-          </View>
+            {breakdown.length > 0 && (
+              <ThemedText style={styles.breakdownToggle}>
+                {showBreakdown ? 'Hide breakdown ▴' : 'Show breakdown ▾'}
+              </ThemedText>
+            )}
+            {showBreakdown &&
+              breakdown.map((factor) => (
+                <View key={factor.criterion} style={styles.factorRow}>
+                  <View style={styles.factorHeader}>
+                    <ThemedText style={styles.factorLabel}>{factor.label}</ThemedText>
+                    <ThemedText style={styles.factorPoints}>
+                      {factor.possible > 0
+                        ? `${formatPoints(factor.points)}/${factor.possible}`
+                        : `${factor.points > 0 ? '+' : ''}${formatPoints(factor.points)}`}
+                    </ThemedText>
+                  </View>
+                  {factor.possible > 0 && (
+                    <View style={styles.factorBar}>
+                      <View
+                        style={[
+                          styles.scoreFill,
+                          {
+                            width: `${(factor.points / factor.possible) * 100}%`,
+                            backgroundColor: getScoreColor((factor.points / factor.possible) * 100),
+                          },
+                        ]}
+                      />
+                    </View>
+                  )}
+                  <ThemedText style={styles.factorEvidence}>{factor.evidence}</ThemedText>
+                </View>
+              ))}
+          </TouchableOpacity>
 
           <View style={styles.reasonsContainer}>
             <ThemedText type="subtitle" style={styles.reasonsTitle}>
@@ -129,6 +479,23 @@ export default function RecommendationScreen() {
             ))}
           </View>
 
+          {(copyDetails.length > 0 || customFields?.notes) && (
+            <View style={styles.reasonsContainer}>
+              <ThemedText type="subtitle" style={styles.reasonsTitle}>
+                Your copy
+              </ThemedText>
+              {copyDetails.map((detail) => (
+                <View key={detail.label} style={styles.copyDetail}>
+                  <ThemedText style={styles.copyLabel}>{detail.label}</ThemedText>
+                  <ThemedText style={styles.copyValue}>{detail.value}</ThemedText>
+                </View>
+              ))}
+              {customFields?.notes && (
+                <ThemedText style={styles.copyNotes}>{customFields.notes}</ThemedText>
+              )}
+            </View>
+          )}
+
           {tracklist.length > 0 && (
             <View style={styles.tracklistContainer}>
               <ThemedText type="subtitle" style={styles.tracklistTitle}>
@@ -182,6 +549,10 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   scrollView: {
     flex: 1,
   },
@@ -201,6 +572,42 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     backgroundColor: '#f0f0f0',
   },
+  pickNavigator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  pickArrow: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f0f0f0',
+  },
+  pickArrowDisabled: {
+    opacity: 0.3,
+  },
+  pickArrowText: {
+    fontSize: 28,
+    lineHeight: 32,
+    color: '#000',
+  },
+  pickInfo: {
+    alignItems: 'center',
+  },
+  pickCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    opacity: 0.7,
+  },
+  rejectText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 4,
+  },
   infoContainer: {
     padding: 24,
   },
@@ -267,6 +674,45 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     textAlign: 'center',
   },
+  breakdownToggle: {
+    fontSize: 13,
+    marginTop: 8,
+    textAlign: 'center',
+    opacity: 0.6,
+    color: '#000',
+  },
+  factorRow: {
+    marginTop: 16,
+  },
+  factorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  factorLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  factorPoints: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    opacity: 0.7,
+  },
+  factorBar: {
+    height: 6,
+    backgroundColor: '#e0e0e0',
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginBottom: 6,
+  },
+  factorEvidence: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#000',
+    opacity: 0.6,
+  },
   reasonsContainer: {
     marginBottom: 32,
   },
@@ -290,6 +736,68 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 24,
   },
+  ratingContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  ratingLabel: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginBottom: 4,
+  },
+  stars: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  star: {
+    fontSize: 32,
+    lineHeight: 40,
+    opacity: 0.8,
+  },
+  spinContainer: {
+    alignItems: 'stretch',
+    marginBottom: 24,
+  },
+  spinLabel: {
+    textAlign: 'center',
+  },
+  reactions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  reactionChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  reactionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  copyDetail: {
+    flexDirection: 'row',
+    marginBottom: 8,
+    paddingLeft: 8,
+  },
+  copyLabel: {
+    width: 80,
+    fontSize: 16,
+    opacity: 0.6,
+  },
+  copyValue: {
+    flex: 1,
+    fontSize: 16,
+  },
+  copyNotes: {
+    fontSize: 16,
+    lineHeight: 24,
+    fontStyle: 'italic',
+    marginTop: 8,
+    paddingLeft: 8,
+  },
   tracklistContainer: {
     marginBottom: 24,
   },
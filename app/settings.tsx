@@ -0,0 +1,548 @@
+/**
+ * Settings Screen
+ *
+ * Linked Discogs accounts, recommendation preferences, password change and
+ * account deletion for the signed-in user
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Platform,
+  Switch,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useAuth } from '@/contexts/AuthContext';
+import { Colors } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { isDiscogsAccount } from '@/services/userAuth';
+import {
+  getLinkedAccounts,
+  getActiveAccount,
+  setActiveAccount,
+  unlinkAccount,
+  initiateAuth,
+  handleAuthCallback,
+} from '@/services/discogsAuth';
+import {
+  getPreferences,
+  updatePreferences,
+  DEFAULT_PREFERENCES,
+  COOLDOWN_DAY_OPTIONS,
+  RecommendationPreferences,
+} from '@/services/preferences';
+import { DiscogsAccount } from '@/types';
+
+/**
+ * Ask the user to confirm a destructive action
+ * Alert buttons are a no-op on web, so fall back to the browser dialog there
+ */
+function confirmDestructive(title: string, message: string, confirmLabel: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    return Promise.resolve(window.confirm(`${title}\n\n${message}`));
+  }
+  return new Promise((resolve) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: confirmLabel, style: 'destructive', onPress: () => resolve(true) },
+    ]);
+  });
+}
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const { user, changePassword, deleteAccount, expiredAccounts, refreshDiscogsLinks } = useAuth();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [deletePassword, setDeletePassword] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [accounts, setAccounts] = useState<DiscogsAccount[]>([]);
+  const [activeUsername, setActiveUsername] = useState<string | null>(null);
+  const [linking, setLinking] = useState(false);
+  const [preferences, setPreferences] = useState<RecommendationPreferences>(DEFAULT_PREFERENCES);
+
+  const loadAccounts = useCallback(async () => {
+    if (!user) return;
+    setAccounts(await getLinkedAccounts(user.id));
+    setActiveUsername((await getActiveAccount(user.id))?.username ?? null);
+    setPreferences(await getPreferences(user.id));
+  }, [user]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  if (!user) {
+    return (
+      <ThemedView style={styles.container}>
+        <View style={styles.centered}>
+          <ThemedText>You are not signed in.</ThemedText>
+        </View>
+      </ThemedView>
+    );
+  }
+
+  const discogsAccount = isDiscogsAccount(user);
+
+  const handleChangePassword = async () => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    if (!currentPassword || !newPassword || !confirmNewPassword) {
+      Alert.alert('Error', 'Please fill in all fields');
+      return;
+    }
+    if (newPassword !== confirmNewPassword) {
+      Alert.alert('Error', 'New passwords do not match');
+      return;
+    }
+
+    setChangingPassword(true);
+    try {
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmNewPassword('');
+      Alert.alert('Password Changed', 'Your password has been updated.');
+    } catch (error: any) {
+      Alert.alert('Password Change Failed', error.message || 'Could not change your password');
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const handleChangePreferences = async (changes: Partial<RecommendationPreferences>) => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setPreferences((current) => ({ ...current, ...changes }));
+    setPreferences(await updatePreferences(user.id, changes));
+  };
+
+  const handleMakeActive = async (account: DiscogsAccount) => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    await setActiveAccount(account);
+    setActiveUsername(account.username);
+  };
+
+  const handleUnlink = async (account: DiscogsAccount) => {
+    const confirmed = await confirmDestructive(
+      'Unlink Discogs Account',
+      `Remove ${account.username} and its cached collection from this device? You can link it again later.`,
+      'Unlink'
+    );
+    if (!confirmed) return;
+
+    try {
+      await unlinkAccount(account);
+      await loadAccounts();
+    } catch (error: any) {
+      Alert.alert('Unlink Failed', error.message || 'Could not unlink this account');
+    }
+  };
+
+  const handleLinkAccount = async () => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    setLinking(true);
+    try {
+      // On web this redirects to Discogs and comes back through /oauth/callback
+      const callbackUrl = await initiateAuth(user.id);
+      const tokens = await handleAuthCallback(callbackUrl);
+      await loadAccounts();
+      await refreshDiscogsLinks();
+      Alert.alert('Account Linked', `Connected as ${tokens.username}`);
+    } catch (error: any) {
+      Alert.alert('Link Failed', error.message || 'Failed to connect Discogs account');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    if (!discogsAccount && !deletePassword) {
+      Alert.alert('Error', 'Enter your password to delete your account');
+      return;
+    }
+
+    const confirmed = await confirmDestructive(
+      'Delete Account',
+      'This removes your account, your Discogs connection and all cached collection data from this device. This cannot be undone.',
+      'Delete'
+    );
+    if (!confirmed) return;
+
+    setDeleting(true);
+    try {
+      await deleteAccount(discogsAccount ? undefined : deletePassword);
+      router.replace('/login');
+    } catch (error: any) {
+      setDeleting(false);
+      Alert.alert('Delete Failed', error.message || 'Could not delete your account');
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Account
+          </ThemedText>
+          <ThemedText style={styles.accountText}>{user.email}</ThemedText>
+          <ThemedText style={styles.hintText}>
+            Member since {new Date(user.createdAt).toLocaleDateString()}
+          </ThemedText>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Discogs Accounts
+          </ThemedText>
+          {accounts.length === 0 && (
+            <ThemedText style={styles.hintText}>No Discogs account linked yet.</ThemedText>
+          )}
+          {accounts.map((account) => {
+            const isActive = account.username === activeUsername;
+            const isExpired = expiredAccounts.some((expired) => expired.username === account.username);
+            return (
+              <View key={account.username} style={[styles.accountRow, { borderColor: colors.tint + '40' }]}>
+                <View style={styles.accountInfo}>
+                  <ThemedText style={styles.accountText}>{account.username}</ThemedText>
+                  {isExpired ? (
+                    <ThemedText style={[styles.activeBadge, styles.expiredBadge]}>Access expired</ThemedText>
+                  ) : (
+                    isActive && <ThemedText style={[styles.activeBadge, { color: colors.tint }]}>Active</ThemedText>
+                  )}
+                </View>
+                {isExpired && (
+                  <TouchableOpacity onPress={handleLinkAccount} disabled={linking} style={styles.rowAction}>
+                    <ThemedText style={[styles.rowActionText, { color: colors.tint }]}>Reconnect</ThemedText>
+                  </TouchableOpacity>
+                )}
+                {!isActive && !isExpired && (
+                  <TouchableOpacity onPress={() => handleMakeActive(account)} style={styles.rowAction}>
+                    <ThemedText style={[styles.rowActionText, { color: colors.tint }]}>Make active</ThemedText>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => handleUnlink(account)} style={styles.rowAction}>
+                  <ThemedText style={styles.unlinkText}>Unlink</ThemedText>
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+          <TouchableOpacity
+            style={[styles.button, styles.outlineButton, { borderColor: colors.tint }]}
+            onPress={handleLinkAccount}
+            disabled={linking || deleting}
+            activeOpacity={0.8}>
+            {linking ? (
+              <ActivityIndicator color={colors.tint} />
+            ) : (
+              <ThemedText style={[styles.outlineButtonText, { color: colors.tint }]}>
+                {accounts.length === 0 ? 'Link Discogs Account' : 'Link Another Account'}
+              </ThemedText>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Recommendations
+          </ThemedText>
+          <View style={styles.preferenceRow}>
+            <View style={styles.accountInfo}>
+              <ThemedText style={styles.accountText}>Skip worn records</ThemedText>
+              <ThemedText style={styles.preferenceHint}>
+                Leave out records whose media condition is Good (G) or worse
+              </ThemedText>
+            </View>
+            <Switch
+              value={preferences.skipPoorCondition}
+              onValueChange={(value) => handleChangePreferences({ skipPoorCondition: value })}
+              trackColor={{ true: colors.tint }}
+            />
+          </View>
+          <View style={styles.preferenceRow}>
+            <View style={styles.accountInfo}>
+              <ThemedText style={styles.accountText}>Respect &quot;don&apos;t spin&quot; notes</ThemedText>
+              <ThemedText style={styles.preferenceHint}>
+                Leave out records with a note like &quot;do not play&quot; in Discogs
+              </ThemedText>
+            </View>
+            <Switch
+              value={preferences.skipDoNotSpin}
+              onValueChange={(value) => handleChangePreferences({ skipDoNotSpin: value })}
+              trackColor={{ true: colors.tint }}
+            />
+          </View>
+          <ThemedText style={styles.accountText}>Give records a rest</ThemedText>
+          <ThemedText style={styles.preferenceHint}>
+            Hold back records that were recommended or played in the last few days
+          </ThemedText>
+          <View style={styles.cooldownOptions}>
+            {COOLDOWN_DAY_OPTIONS.map((days) => {
+              const selected = preferences.cooldownDays === days;
+              return (
+                <TouchableOpacity
+                  key={days}
+                  style={[
+                    styles.cooldownChip,
+                    { borderColor: colors.tint + '60' },
+                    selected && { backgroundColor: colors.tint, borderColor: colors.tint },
+                  ]}
+                  onPress={() => handleChangePreferences({ cooldownDays: days })}
+                  activeOpacity={0.7}>
+                  <ThemedText style={[styles.cooldownChipText, selected && { color: '#000' }]}>
+                    {days === 0 ? 'Off' : `${days} days`}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {preferences.cooldownDays > 0 && (
+            <View style={styles.preferenceRow}>
+              <View style={styles.accountInfo}>
+                <ThemedText style={styles.accountText}>Never repeat during the rest</ThemedText>
+                <ThemedText style={styles.preferenceHint}>
+                  Off: resting records are just less likely to come up
+                </ThemedText>
+              </View>
+              <Switch
+                value={preferences.cooldownMode === 'exclude'}
+                onValueChange={(value) => handleChangePreferences({ cooldownMode: value ? 'exclude' : 'downweight' })}
+                trackColor={{ true: colors.tint }}
+              />
+            </View>
+          )}
+        </View>
+
+        {!discogsAccount && (
+          <View style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>
+              Change Password
+            </ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: colors.tint + '40', color: colors.text }]}
+              placeholder="Current password"
+              placeholderTextColor="#999"
+              value={currentPassword}
+              onChangeText={setCurrentPassword}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={[styles.input, { borderColor: colors.tint + '40', color: colors.text }]}
+              placeholder="New password"
+              placeholderTextColor="#999"
+              value={newPassword}
+              onChangeText={setNewPassword}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={[styles.input, { borderColor: colors.tint + '40', color: colors.text }]}
+              placeholder="Confirm new password"
+              placeholderTextColor="#999"
+              value={confirmNewPassword}
+              onChangeText={setConfirmNewPassword}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.tint }]}
+              onPress={handleChangePassword}
+              disabled={changingPassword || deleting}
+              activeOpacity={0.8}>
+              {changingPassword ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <ThemedText style={styles.buttonText}>Update Password</ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <ThemedText type="subtitle" style={[styles.sectionTitle, styles.dangerTitle]}>
+            Delete Account
+          </ThemedText>
+          <ThemedText style={styles.hintText}>
+            Removes your account, password, Discogs tokens and cached collection from this device.
+          </ThemedText>
+          {!discogsAccount && (
+            <TextInput
+              style={[styles.input, { borderColor: '#ff3b3040', color: colors.text }]}
+              placeholder="Password"
+              placeholderTextColor="#999"
+              value={deletePassword}
+              onChangeText={setDeletePassword}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+          )}
+          <TouchableOpacity
+            style={[styles.button, styles.dangerButton]}
+            onPress={handleDeleteAccount}
+            disabled={changingPassword || deleting}
+            activeOpacity={0.8}>
+            {deleting ? (
+              <ActivityIndicator color="#ff3b30" />
+            ) : (
+              <ThemedText style={styles.dangerButtonText}>Delete Account</ThemedText>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    padding: 24,
+  },
+  section: {
+    marginBottom: 40,
+  },
+  sectionTitle: {
+    marginBottom: 12,
+  },
+  accountText: {
+    fontSize: 16,
+    marginBottom: 4,
+  },
+  hintText: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    marginBottom: 12,
+    backgroundColor: 'transparent',
+  },
+  button: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 52,
+  },
+  buttonText: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  preferenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    gap: 12,
+  },
+  preferenceHint: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  cooldownOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  cooldownChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  cooldownChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  activeBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  expiredBadge: {
+    color: '#ff3b30',
+  },
+  rowAction: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  rowActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  unlinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff3b30',
+  },
+  outlineButton: {
+    borderWidth: 2,
+    backgroundColor: 'transparent',
+  },
+  outlineButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dangerTitle: {
+    color: '#ff3b30',
+  },
+  dangerButton: {
+    borderWidth: 2,
+    borderColor: '#ff3b30',
+    backgroundColor: 'transparent',
+  },
+  dangerButtonText: {
+    color: '#ff3b30',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
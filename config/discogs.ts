@@ -14,6 +14,7 @@
 
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
+import type { OAuthSignatureMethod } from '@/services/oauthSignature';
 
 // Get redirect URI based on platform (called at runtime, not module load)
 export function getRedirectUri(): string {
@@ -35,15 +36,16 @@ export function getRedirectUri(): string {
 }
 
 // Get from environment variables or use defaults (you should replace these)
-// For web, you can use a proxy endpoint to avoid CORS issues
+// The proxy holds the consumer secret and signs requests, so the app never needs it.
 // Set EXPO_PUBLIC_DISCOGS_PROXY_URL to your serverless function URL (e.g., https://your-app.vercel.app/api/discogs-oauth)
+// Web requires a proxy (CORS); native builds use it when the variable is set
 const getProxyUrl = (): string | null => {
+  // Check for proxy URL in environment
+  const proxyUrl = process.env.EXPO_PUBLIC_DISCOGS_PROXY_URL;
+  if (proxyUrl) {
+    return proxyUrl;
+  }
   if (Platform.OS === 'web' && typeof window !== 'undefined') {
-    // Check for proxy URL in environment
-    const proxyUrl = process.env.EXPO_PUBLIC_DISCOGS_PROXY_URL;
-    if (proxyUrl) {
-      return proxyUrl;
-    }
     // Only use relative path if not in localhost (i.e., deployed)
     const isLocalhost = window.location.hostname === 'localhost' || 
                         window.location.hostname === '127.0.0.1' ||
@@ -58,9 +60,14 @@ const getProxyUrl = (): string | null => {
   return null;
 };
 
+// HMAC-SHA1 by default; set DISCOGS_SIGNATURE_METHOD=PLAINTEXT to fall back (e.g. for debugging)
+const getSignatureMethod = (): OAuthSignatureMethod =>
+  Constants.expoConfig?.extra?.discogsSignatureMethod === 'PLAINTEXT' ? 'PLAINTEXT' : 'HMAC-SHA1';
+
 export const DISCOGS_CONFIG = {
   consumerKey: Constants.expoConfig?.extra?.discogsConsumerKey || 'YOUR_CONSUMER_KEY',
   consumerSecret: Constants.expoConfig?.extra?.discogsConsumerSecret || 'YOUR_CONSUMER_SECRET',
+  signatureMethod: getSignatureMethod(),
   get redirectUri() {
     // Calculate redirect URI at runtime, not at module load
     return getRedirectUri();
@@ -76,13 +83,17 @@ export const DISCOGS_CONFIG = {
 };
 
 // Validate that credentials are set
+// With a proxy, the credentials live on the server instead
 export function validateDiscogsConfig(): boolean {
+  if (DISCOGS_CONFIG.proxyUrl) {
+    return true;
+  }
   if (
     DISCOGS_CONFIG.consumerKey === 'YOUR_CONSUMER_KEY' ||
     DISCOGS_CONFIG.consumerSecret === 'YOUR_CONSUMER_SECRET'
   ) {
     console.warn(
-      '⚠️ Discogs credentials not configured. Please set DISCOGS_CONSUMER_KEY and DISCOGS_CONSUMER_SECRET in your environment or app.json extra config.'
+      '⚠️ Discogs credentials not configured. Please set DISCOGS_CONSUMER_KEY and DISCOGS_CONSUMER_SECRET in your environment or app.json extra config, or set EXPO_PUBLIC_DISCOGS_PROXY_URL.'
     );
     return false;
   }
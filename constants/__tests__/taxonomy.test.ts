@@ -0,0 +1,66 @@
+import {
+  DISCOGS_GENRES,
+  GENRE_GROUPS,
+  getGenre,
+  getGenreGroup,
+  getStyle,
+  stylesOfGenre,
+} from '@/constants/taxonomy';
+import { estimateMusicProfile, scoreMood, scoreTempo } from '@/services/musicProfile';
+import { CollectionItem, QuizAnswers } from '@/types';
+
+const MOODS: QuizAnswers['mood'][] = ['energetic', 'relaxed', 'melancholic', 'happy', 'aggressive', 'peaceful'];
+const TEMPOS: QuizAnswers['tempo'][] = ['slow', 'medium', 'fast', 'very-fast'];
+const GOOD_FIT = 0.6;
+
+function itemWithStyle(style: string): CollectionItem {
+  return { basic_information: { id: 1, title: style, genres: [], styles: [style] } } as unknown as CollectionItem;
+}
+
+describe('GENRE_GROUPS', () => {
+  // The quiz offers these labels, the engine and Explore look them up by label
+  it.each(GENRE_GROUPS.map((group) => [group.label, group]))('%s resolves by its label', (label, group) => {
+    expect(getGenreGroup(label as string)).toBe(group);
+  });
+
+  it.each(GENRE_GROUPS.map((group) => [group.label, group.genres]))('%s names only known genres', (_, genres) => {
+    (genres as string[]).forEach((genre) => expect({ genre, known: !!getGenre(genre) }).toEqual({ genre, known: true }));
+  });
+
+  it.each(GENRE_GROUPS.map((group) => [group.label, group.styles]))('%s names only known styles', (_, styles) => {
+    (styles as string[]).forEach((style) => expect({ style, known: !!getStyle(style) }).toEqual({ style, known: true }));
+  });
+
+  it('has unique labels', () => {
+    const labels = GENRE_GROUPS.map((group) => group.label);
+    expect(new Set(labels).size).toBe(labels.length);
+  });
+});
+
+describe('styles', () => {
+  it('each belong to a known Discogs genre', () => {
+    const grouped = DISCOGS_GENRES.flatMap((genre) => stylesOfGenre(genre));
+    grouped.forEach((style) => expect(DISCOGS_GENRES).toContain(style.genre));
+    expect(grouped.length).toBeGreaterThan(0);
+  });
+
+  it('give every grouped style a music profile', () => {
+    GENRE_GROUPS.flatMap((group) => group.styles).forEach((style) => {
+      expect({ style, profiled: estimateMusicProfile(itemWithStyle(style)) !== null }).toEqual({ style, profiled: true });
+    });
+  });
+});
+
+describe('mood and tempo answers', () => {
+  const profiles = DISCOGS_GENRES.flatMap((genre) => stylesOfGenre(genre)).map(
+    (style) => estimateMusicProfile(itemWithStyle(style.name))!
+  );
+
+  it.each(MOODS)('%s is a good fit for some style', (mood) => {
+    expect(profiles.some((profile) => scoreMood(profile, mood) >= GOOD_FIT)).toBe(true);
+  });
+
+  it.each(TEMPOS)('%s is a good fit for some style', (tempo) => {
+    expect(profiles.some((profile) => scoreTempo(profile, tempo) >= GOOD_FIT)).toBe(true);
+  });
+});
@@ -0,0 +1,705 @@
+/**
+ * Discogs Genre & Style Taxonomy
+ *
+ * Every Discogs genre and style, each style filed under the genre Discogs
+ * usually lists it with, plus the rough musical character of a typical
+ * record in it: tempo in beats per minute, energy from calm (0) to intense
+ * (1) and valence from dark or sad (0) to bright or happy (1). Energy and
+ * valence together place a style in mood space.
+ *
+ * Also defines the genre groups the quiz and Explore offer. Each group is
+ * made only of real Discogs genres and styles, so matching a record is an
+ * exact lookup rather than a substring search.
+ */
+
+export type DiscogsGenre =
+  | 'Blues'
+  | 'Brass & Military'
+  | "Children's"
+  | 'Classical'
+  | 'Electronic'
+  | 'Folk, World, & Country'
+  | 'Funk / Soul'
+  | 'Hip Hop'
+  | 'Jazz'
+  | 'Latin'
+  | 'Non-Music'
+  | 'Pop'
+  | 'Reggae'
+  | 'Rock'
+  | 'Stage & Screen';
+
+export interface MoodProfile {
+  bpm: number;
+  energy: number;
+  valence: number;
+}
+
+export interface StyleInfo extends MoodProfile {
+  name: string;
+  genre: DiscogsGenre;
+}
+
+export interface GenreGroup {
+  label: string;
+  // A record matches when it lists any of these genres or styles
+  genres: DiscogsGenre[];
+  styles: string[];
+}
+
+// Typical character of each genre, used when none of a record's styles is known
+const GENRES: Record<DiscogsGenre, MoodProfile> = {
+  Blues: { bpm: 105, energy: 0.5, valence: 0.4 },
+  'Brass & Military': { bpm: 110, energy: 0.65, valence: 0.65 },
+  "Children's": { bpm: 105, energy: 0.45, valence: 0.85 },
+  Classical: { bpm: 90, energy: 0.4, valence: 0.5 },
+  Electronic: { bpm: 125, energy: 0.7, valence: 0.5 },
+  'Folk, World, & Country': { bpm: 105, energy: 0.45, valence: 0.6 },
+  'Funk / Soul': { bpm: 105, energy: 0.65, valence: 0.75 },
+  'Hip Hop': { bpm: 92, energy: 0.7, valence: 0.45 },
+  Jazz: { bpm: 120, energy: 0.5, valence: 0.6 },
+  Latin: { bpm: 115, energy: 0.7, valence: 0.75 },
+  'Non-Music': { bpm: 90, energy: 0.2, valence: 0.5 },
+  Pop: { bpm: 115, energy: 0.6, valence: 0.75 },
+  Reggae: { bpm: 80, energy: 0.5, valence: 0.7 },
+  Rock: { bpm: 125, energy: 0.7, valence: 0.5 },
+  'Stage & Screen': { bpm: 100, energy: 0.45, valence: 0.55 },
+};
+
+// Keyed by the style name exactly as Discogs spells it
+const STYLES: Record<string, MoodProfile & { genre: DiscogsGenre }> = {
+  // Blues
+  'Boogie Woogie': { genre: 'Blues', bpm: 150, energy: 0.75, valence: 0.8 },
+  'Chicago Blues': { genre: 'Blues', bpm: 110, energy: 0.55, valence: 0.4 },
+  'Country Blues': { genre: 'Blues', bpm: 95, energy: 0.35, valence: 0.35 },
+  'Delta Blues': { genre: 'Blues', bpm: 90, energy: 0.35, valence: 0.25 },
+  'East Coast Blues': { genre: 'Blues', bpm: 100, energy: 0.4, valence: 0.45 },
+  'Electric Blues': { genre: 'Blues', bpm: 110, energy: 0.6, valence: 0.4 },
+  'Harmonica Blues': { genre: 'Blues', bpm: 105, energy: 0.5, valence: 0.4 },
+  'Jump Blues': { genre: 'Blues', bpm: 150, energy: 0.75, valence: 0.8 },
+  'Louisiana Blues': { genre: 'Blues', bpm: 105, energy: 0.5, valence: 0.5 },
+  'Memphis Blues': { genre: 'Blues', bpm: 100, energy: 0.45, valence: 0.4 },
+  'Modern Electric Blues': { genre: 'Blues', bpm: 105, energy: 0.6, valence: 0.4 },
+  'Piano Blues': { genre: 'Blues', bpm: 100, energy: 0.45, valence: 0.45 },
+  'Rhythm & Blues': { genre: 'Blues', bpm: 120, energy: 0.65, valence: 0.7 },
+  'Texas Blues': { genre: 'Blues', bpm: 110, energy: 0.6, valence: 0.45 },
+
+  // Brass & Military
+  'Brass Band': { genre: 'Brass & Military', bpm: 115, energy: 0.65, valence: 0.75 },
+  Marches: { genre: 'Brass & Military', bpm: 115, energy: 0.7, valence: 0.7 },
+  Military: { genre: 'Brass & Military', bpm: 110, energy: 0.65, valence: 0.55 },
+  'Pipe & Drum': { genre: 'Brass & Military', bpm: 105, energy: 0.6, valence: 0.55 },
+
+  // Children's
+  Educational: { genre: "Children's", bpm: 100, energy: 0.4, valence: 0.8 },
+  'Nursery Rhymes': { genre: "Children's", bpm: 100, energy: 0.35, valence: 0.85 },
+  Story: { genre: "Children's", bpm: 85, energy: 0.2, valence: 0.7 },
+
+  // Classical
+  Baroque: { genre: 'Classical', bpm: 105, energy: 0.45, valence: 0.65 },
+  Choral: { genre: 'Classical', bpm: 75, energy: 0.3, valence: 0.5 },
+  Classical: { genre: 'Classical', bpm: 100, energy: 0.4, valence: 0.6 },
+  Contemporary: { genre: 'Classical', bpm: 90, energy: 0.45, valence: 0.35 },
+  Impressionist: { genre: 'Classical', bpm: 75, energy: 0.25, valence: 0.55 },
+  Medieval: { genre: 'Classical', bpm: 80, energy: 0.25, valence: 0.45 },
+  Modern: { genre: 'Classical', bpm: 95, energy: 0.5, valence: 0.35 },
+  'Neo-Classical': { genre: 'Classical', bpm: 85, energy: 0.35, valence: 0.45 },
+  'Neo-Romantic': { genre: 'Classical', bpm: 80, energy: 0.45, valence: 0.4 },
+  Opera: { genre: 'Classical', bpm: 90, energy: 0.55, valence: 0.45 },
+  Operetta: { genre: 'Classical', bpm: 110, energy: 0.55, valence: 0.75 },
+  'Post-Modern': { genre: 'Classical', bpm: 90, energy: 0.4, valence: 0.4 },
+  Renaissance: { genre: 'Classical', bpm: 80, energy: 0.25, valence: 0.5 },
+  Romantic: { genre: 'Classical', bpm: 85, energy: 0.5, valence: 0.45 },
+  Serial: { genre: 'Classical', bpm: 85, energy: 0.45, valence: 0.25 },
+
+  // Electronic
+  Abstract: { genre: 'Electronic', bpm: 95, energy: 0.4, valence: 0.35 },
+  Acid: { genre: 'Electronic', bpm: 130, energy: 0.85, valence: 0.45 },
+  'Acid House': { genre: 'Electronic', bpm: 124, energy: 0.8, valence: 0.6 },
+  'Acid Jazz': { genre: 'Electronic', bpm: 105, energy: 0.6, valence: 0.7 },
+  Ambient: { genre: 'Electronic', bpm: 70, energy: 0.1, valence: 0.5 },
+  'Baltimore Club': { genre: 'Electronic', bpm: 130, energy: 0.85, valence: 0.65 },
+  'Bass Music': { genre: 'Electronic', bpm: 140, energy: 0.8, valence: 0.4 },
+  Bassline: { genre: 'Electronic', bpm: 135, energy: 0.85, valence: 0.6 },
+  Beatdown: { genre: 'Electronic', bpm: 115, energy: 0.6, valence: 0.5 },
+  'Berlin-School': { genre: 'Electronic', bpm: 110, energy: 0.45, valence: 0.45 },
+  'Big Beat': { genre: 'Electronic', bpm: 130, energy: 0.85, valence: 0.7 },
+  Bleep: { genre: 'Electronic', bpm: 125, energy: 0.7, valence: 0.45 },
+  Breakbeat: { genre: 'Electronic', bpm: 130, energy: 0.8, valence: 0.55 },
+  Breakcore: { genre: 'Electronic', bpm: 180, energy: 0.95, valence: 0.3 },
+  Breaks: { genre: 'Electronic', bpm: 130, energy: 0.8, valence: 0.55 },
+  'Broken Beat': { genre: 'Electronic', bpm: 120, energy: 0.6, valence: 0.6 },
+  Chillwave: { genre: 'Electronic', bpm: 95, energy: 0.3, valence: 0.6 },
+  Chiptune: { genre: 'Electronic', bpm: 140, energy: 0.75, valence: 0.8 },
+  'Dance-pop': { genre: 'Electronic', bpm: 122, energy: 0.75, valence: 0.85 },
+  'Dark Ambient': { genre: 'Electronic', bpm: 60, energy: 0.15, valence: 0.1 },
+  Darkwave: { genre: 'Electronic', bpm: 120, energy: 0.55, valence: 0.15 },
+  'Deep House': { genre: 'Electronic', bpm: 122, energy: 0.55, valence: 0.6 },
+  'Deep Techno': { genre: 'Electronic', bpm: 125, energy: 0.6, valence: 0.3 },
+  'Disco Polo': { genre: 'Electronic', bpm: 130, energy: 0.75, valence: 0.85 },
+  Donk: { genre: 'Electronic', bpm: 150, energy: 0.95, valence: 0.75 },
+  Downtempo: { genre: 'Electronic', bpm: 90, energy: 0.3, valence: 0.5 },
+  Drone: { genre: 'Electronic', bpm: 60, energy: 0.15, valence: 0.25 },
+  'Drum n Bass': { genre: 'Electronic', bpm: 174, energy: 0.9, valence: 0.5 },
+  'Dub Techno': { genre: 'Electronic', bpm: 122, energy: 0.45, valence: 0.35 },
+  Dubstep: { genre: 'Electronic', bpm: 140, energy: 0.85, valence: 0.3 },
+  'Dungeon Synth': { genre: 'Electronic', bpm: 70, energy: 0.2, valence: 0.2 },
+  EBM: { genre: 'Electronic', bpm: 125, energy: 0.85, valence: 0.2 },
+  Electro: { genre: 'Electronic', bpm: 125, energy: 0.75, valence: 0.5 },
+  'Electro House': { genre: 'Electronic', bpm: 128, energy: 0.9, valence: 0.65 },
+  Electroclash: { genre: 'Electronic', bpm: 125, energy: 0.75, valence: 0.5 },
+  'Euro House': { genre: 'Electronic', bpm: 128, energy: 0.8, valence: 0.8 },
+  'Euro-Disco': { genre: 'Electronic', bpm: 125, energy: 0.75, valence: 0.85 },
+  Eurobeat: { genre: 'Electronic', bpm: 155, energy: 0.9, valence: 0.8 },
+  Eurodance: { genre: 'Electronic', bpm: 135, energy: 0.85, valence: 0.8 },
+  Experimental: { genre: 'Electronic', bpm: 100, energy: 0.5, valence: 0.35 },
+  Footwork: { genre: 'Electronic', bpm: 160, energy: 0.85, valence: 0.5 },
+  Freestyle: { genre: 'Electronic', bpm: 118, energy: 0.75, valence: 0.7 },
+  'Future Jazz': { genre: 'Electronic', bpm: 110, energy: 0.5, valence: 0.6 },
+  Gabber: { genre: 'Electronic', bpm: 180, energy: 1, valence: 0.3 },
+  'Garage House': { genre: 'Electronic', bpm: 122, energy: 0.7, valence: 0.75 },
+  Ghetto: { genre: 'Electronic', bpm: 130, energy: 0.85, valence: 0.55 },
+  'Ghetto House': { genre: 'Electronic', bpm: 130, energy: 0.85, valence: 0.55 },
+  Ghettotech: { genre: 'Electronic', bpm: 150, energy: 0.9, valence: 0.6 },
+  Glitch: { genre: 'Electronic', bpm: 110, energy: 0.5, valence: 0.4 },
+  'Goa Trance': { genre: 'Electronic', bpm: 145, energy: 0.85, valence: 0.6 },
+  Halftime: { genre: 'Electronic', bpm: 85, energy: 0.6, valence: 0.3 },
+  'Hands Up': { genre: 'Electronic', bpm: 140, energy: 0.9, valence: 0.85 },
+  'Happy Hardcore': { genre: 'Electronic', bpm: 170, energy: 0.95, valence: 0.95 },
+  'Hard House': { genre: 'Electronic', bpm: 140, energy: 0.9, valence: 0.55 },
+  'Hard Techno': { genre: 'Electronic', bpm: 145, energy: 0.95, valence: 0.25 },
+  'Hard Trance': { genre: 'Electronic', bpm: 145, energy: 0.9, valence: 0.5 },
+  Hardcore: { genre: 'Electronic', bpm: 170, energy: 0.95, valence: 0.3 },
+  Hardstyle: { genre: 'Electronic', bpm: 150, energy: 0.95, valence: 0.45 },
+  'Hi NRG': { genre: 'Electronic', bpm: 130, energy: 0.85, valence: 0.8 },
+  'Hip-House': { genre: 'Electronic', bpm: 122, energy: 0.8, valence: 0.75 },
+  House: { genre: 'Electronic', bpm: 124, energy: 0.75, valence: 0.7 },
+  IDM: { genre: 'Electronic', bpm: 120, energy: 0.5, valence: 0.45 },
+  Illbient: { genre: 'Electronic', bpm: 85, energy: 0.35, valence: 0.25 },
+  Industrial: { genre: 'Electronic', bpm: 120, energy: 0.8, valence: 0.15 },
+  'Italo House': { genre: 'Electronic', bpm: 122, energy: 0.75, valence: 0.8 },
+  'Italo-Disco': { genre: 'Electronic', bpm: 120, energy: 0.7, valence: 0.8 },
+  Italodance: { genre: 'Electronic', bpm: 135, energy: 0.85, valence: 0.8 },
+  Jazzdance: { genre: 'Electronic', bpm: 130, energy: 0.75, valence: 0.7 },
+  Juke: { genre: 'Electronic', bpm: 160, energy: 0.85, valence: 0.55 },
+  Jumpstyle: { genre: 'Electronic', bpm: 145, energy: 0.9, valence: 0.6 },
+  Jungle: { genre: 'Electronic', bpm: 165, energy: 0.9, valence: 0.5 },
+  Leftfield: { genre: 'Electronic', bpm: 115, energy: 0.55, valence: 0.45 },
+  'Lo-Fi': { genre: 'Electronic', bpm: 85, energy: 0.3, valence: 0.5 },
+  Makina: { genre: 'Electronic', bpm: 165, energy: 0.95, valence: 0.6 },
+  Minimal: { genre: 'Electronic', bpm: 125, energy: 0.55, valence: 0.4 },
+  'Minimal Techno': { genre: 'Electronic', bpm: 126, energy: 0.6, valence: 0.35 },
+  'Musique Concrète': { genre: 'Electronic', bpm: 80, energy: 0.35, valence: 0.3 },
+  'New Age': { genre: 'Electronic', bpm: 65, energy: 0.1, valence: 0.7 },
+  'New Beat': { genre: 'Electronic', bpm: 110, energy: 0.7, valence: 0.35 },
+  Noise: { genre: 'Electronic', bpm: 120, energy: 0.9, valence: 0.15 },
+  'Nu-Disco': { genre: 'Electronic', bpm: 118, energy: 0.65, valence: 0.75 },
+  'Power Electronics': { genre: 'Electronic', bpm: 110, energy: 0.95, valence: 0.05 },
+  'Progressive Breaks': { genre: 'Electronic', bpm: 130, energy: 0.75, valence: 0.5 },
+  'Progressive House': { genre: 'Electronic', bpm: 126, energy: 0.7, valence: 0.6 },
+  'Progressive Trance': { genre: 'Electronic', bpm: 134, energy: 0.75, valence: 0.6 },
+  'Psy-Trance': { genre: 'Electronic', bpm: 145, energy: 0.9, valence: 0.5 },
+  'Rhythmic Noise': { genre: 'Electronic', bpm: 135, energy: 0.9, valence: 0.15 },
+  Schranz: { genre: 'Electronic', bpm: 150, energy: 0.95, valence: 0.2 },
+  'Sound Collage': { genre: 'Electronic', bpm: 90, energy: 0.4, valence: 0.4 },
+  'Speed Garage': { genre: 'Electronic', bpm: 135, energy: 0.8, valence: 0.6 },
+  Speedcore: { genre: 'Electronic', bpm: 250, energy: 1, valence: 0.2 },
+  'Synth-pop': { genre: 'Electronic', bpm: 120, energy: 0.65, valence: 0.65 },
+  Synthwave: { genre: 'Electronic', bpm: 110, energy: 0.65, valence: 0.5 },
+  'Tech House': { genre: 'Electronic', bpm: 125, energy: 0.7, valence: 0.55 },
+  'Tech Trance': { genre: 'Electronic', bpm: 138, energy: 0.85, valence: 0.5 },
+  Techno: { genre: 'Electronic', bpm: 130, energy: 0.8, valence: 0.4 },
+  Trance: { genre: 'Electronic', bpm: 138, energy: 0.8, valence: 0.65 },
+  Tribal: { genre: 'Electronic', bpm: 128, energy: 0.75, valence: 0.55 },
+  'Tribal House': { genre: 'Electronic', bpm: 126, energy: 0.75, valence: 0.6 },
+  'Trip Hop': { genre: 'Electronic', bpm: 90, energy: 0.35, valence: 0.3 },
+  'Tropical House': { genre: 'Electronic', bpm: 110, energy: 0.55, valence: 0.8 },
+  'UK Garage': { genre: 'Electronic', bpm: 132, energy: 0.75, valence: 0.65 },
+  Vaporwave: { genre: 'Electronic', bpm: 85, energy: 0.25, valence: 0.45 },
+  'Witch House': { genre: 'Electronic', bpm: 70, energy: 0.4, valence: 0.1 },
+
+  // Folk, World, & Country
+  Aboriginal: { genre: 'Folk, World, & Country', bpm: 100, energy: 0.45, valence: 0.5 },
+  African: { genre: 'Folk, World, & Country', bpm: 115, energy: 0.65, valence: 0.75 },
+  Bhangra: { genre: 'Folk, World, & Country', bpm: 125, energy: 0.85, valence: 0.85 },
+  Bluegrass: { genre: 'Folk, World, & Country', bpm: 140, energy: 0.7, valence: 0.75 },
+  Cajun: { genre: 'Folk, World, & Country', bpm: 125, energy: 0.7, valence: 0.8 },
+  'Canzone Napoletana': { genre: 'Folk, World, & Country', bpm: 90, energy: 0.4, valence: 0.6 },
+  Carnatic: { genre: 'Folk, World, & Country', bpm: 95, energy: 0.45, valence: 0.55 },
+  'Catalan Music': { genre: 'Folk, World, & Country', bpm: 95, energy: 0.4, valence: 0.6 },
+  Celtic: { genre: 'Folk, World, & Country', bpm: 115, energy: 0.55, valence: 0.65 },
+  Country: { genre: 'Folk, World, & Country', bpm: 110, energy: 0.55, valence: 0.65 },
+  Fado: { genre: 'Folk, World, & Country', bpm: 80, energy: 0.3, valence: 0.15 },
+  Flamenco: { genre: 'Folk, World, & Country', bpm: 120, energy: 0.65, valence: 0.45 },
+  Folk: { genre: 'Folk, World, & Country', bpm: 100, energy: 0.35, valence: 0.5 },
+  Gamelan: { genre: 'Folk, World, & Country', bpm: 90, energy: 0.4, valence: 0.55 },
+  Gospel: { genre: 'Folk, World, & Country', bpm: 100, energy: 0.6, valence: 0.8 },
+  Highlife: { genre: 'Folk, World, & Country', bpm: 120, energy: 0.65, valence: 0.85 },
+  Hillbilly: { genre: 'Folk, World, & Country', bpm: 125, energy: 0.6, valence: 0.7 },
+  Hindustani: { genre: 'Folk, World, & Country', bpm: 85, energy: 0.4, valence: 0.5 },
+  'Honky Tonk': { genre: 'Folk, World, & Country', bpm: 120, energy: 0.6, valence: 0.6 },
+  'Indian Classical': { genre: 'Folk, World, & Country', bpm: 85, energy: 0.4, valence: 0.5 },
+  Jùjú: { genre: 'Folk, World, & Country', bpm: 115, energy: 0.6, valence: 0.8 },
+  Klezmer: { genre: 'Folk, World, & Country', bpm: 130, energy: 0.65, valence: 0.65 },
+  Kwaito: { genre: 'Folk, World, & Country', bpm: 110, energy: 0.65, valence: 0.7 },
+  Laïkó: { genre: 'Folk, World, & Country', bpm: 110, energy: 0.6, valence: 0.5 },
+  Mbalax: { genre: 'Folk, World, & Country', bpm: 135, energy: 0.8, valence: 0.8 },
+  'Min\'yō': { genre: 'Folk, World, & Country', bpm: 90, energy: 0.4, valence: 0.55 },
+  Mizrahi: { genre: 'Folk, World, & Country', bpm: 115, energy: 0.65, valence: 0.6 },
+  Nordic: { genre: 'Folk, World, & Country', bpm: 95, energy: 0.4, valence: 0.4 },
+  Pacific: { genre: 'Folk, World, & Country', bpm: 100, energy: 0.45, valence: 0.75 },
+  Polka: { genre: 'Folk, World, & Country', bpm: 125, energy: 0.75, valence: 0.9 },
+  Rebetiko: { genre: 'Folk, World, & Country', bpm: 95, energy: 0.45, valence: 0.3 },
+  Romani: { genre: 'Folk, World, & Country', bpm: 130, energy: 0.7, valence: 0.55 },
+  Soukous: { genre: 'Folk, World, & Country', bpm: 130, energy: 0.8, valence: 0.85 },
+  Séga: { genre: 'Folk, World, & Country', bpm: 125, energy: 0.7, valence: 0.8 },
+  Volksmusik: { genre: 'Folk, World, & Country', bpm: 115, energy: 0.55, valence: 0.8 },
+  Zouk: { genre: 'Folk, World, & Country', bpm: 100, energy: 0.6, valence: 0.75 },
+  Éntekhno: { genre: 'Folk, World, & Country', bpm: 90, energy: 0.4, valence: 0.4 },
+
+  // Funk / Soul
+  Afrobeat: { genre: 'Funk / Soul', bpm: 115, energy: 0.8, valence: 0.75 },
+  'Bayou Funk': { genre: 'Funk / Soul', bpm: 110, energy: 0.7, valence: 0.75 },
+  Boogie: { genre: 'Funk / Soul', bpm: 115, energy: 0.7, valence: 0.8 },
+  'Contemporary R&B': { genre: 'Funk / Soul', bpm: 95, energy: 0.5, valence: 0.6 },
+  Disco: { genre: 'Funk / Soul', bpm: 120, energy: 0.8, valence: 0.85 },
+  'Free Funk': { genre: 'Funk / Soul', bpm: 110, energy: 0.75, valence: 0.6 },
+  Funk: { genre: 'Funk / Soul', bpm: 105, energy: 0.8, valence: 0.8 },
+  'Minneapolis Sound': { genre: 'Funk / Soul', bpm: 115, energy: 0.75, valence: 0.7 },
+  'Neo Soul': { genre: 'Funk / Soul', bpm: 85, energy: 0.4, valence: 0.6 },
+  'New Jack Swing': { genre: 'Funk / Soul', bpm: 105, energy: 0.7, valence: 0.75 },
+  'Northern Soul': { genre: 'Funk / Soul', bpm: 125, energy: 0.75, valence: 0.8 },
+  'P.Funk': { genre: 'Funk / Soul', bpm: 105, energy: 0.8, valence: 0.8 },
+  Psychedelic: { genre: 'Funk / Soul', bpm: 110, energy: 0.6, valence: 0.55 },
+  Soul: { genre: 'Funk / Soul', bpm: 100, energy: 0.55, valence: 0.65 },
+  Swingbeat: { genre: 'Funk / Soul', bpm: 100, energy: 0.65, valence: 0.7 },
+  'UK Street Soul': { genre: 'Funk / Soul', bpm: 95, energy: 0.5, valence: 0.6 },
+
+  // Hip Hop
+  'Boom Bap': { genre: 'Hip Hop', bpm: 90, energy: 0.65, valence: 0.45 },
+  Bounce: { genre: 'Hip Hop', bpm: 100, energy: 0.85, valence: 0.75 },
+  Britcore: { genre: 'Hip Hop', bpm: 105, energy: 0.8, valence: 0.35 },
+  'Cloud Rap': { genre: 'Hip Hop', bpm: 70, energy: 0.4, valence: 0.35 },
+  Conscious: { genre: 'Hip Hop', bpm: 90, energy: 0.55, valence: 0.5 },
+  Crunk: { genre: 'Hip Hop', bpm: 75, energy: 0.9, valence: 0.5 },
+  'Cut-up/DJ': { genre: 'Hip Hop', bpm: 95, energy: 0.6, valence: 0.5 },
+  'DJ Battle Tool': { genre: 'Hip Hop', bpm: 95, energy: 0.65, valence: 0.5 },
+  Drill: { genre: 'Hip Hop', bpm: 70, energy: 0.75, valence: 0.15 },
+  'G-Funk': { genre: 'Hip Hop', bpm: 92, energy: 0.6, valence: 0.65 },
+  Gangsta: { genre: 'Hip Hop', bpm: 90, energy: 0.7, valence: 0.3 },
+  'Go-Go': { genre: 'Hip Hop', bpm: 105, energy: 0.8, valence: 0.75 },
+  Grime: { genre: 'Hip Hop', bpm: 140, energy: 0.85, valence: 0.3 },
+  'Hardcore Hip-Hop': { genre: 'Hip Hop', bpm: 92, energy: 0.85, valence: 0.25 },
+  Horrorcore: { genre: 'Hip Hop', bpm: 85, energy: 0.75, valence: 0.1 },
+  Instrumental: { genre: 'Hip Hop', bpm: 90, energy: 0.45, valence: 0.5 },
+  'Jazzy Hip-Hop': { genre: 'Hip Hop', bpm: 88, energy: 0.45, valence: 0.6 },
+  'Miami Bass': { genre: 'Hip Hop', bpm: 130, energy: 0.85, valence: 0.7 },
+  Phonk: { genre: 'Hip Hop', bpm: 130, energy: 0.8, valence: 0.25 },
+  'Pop Rap': { genre: 'Hip Hop', bpm: 100, energy: 0.7, valence: 0.8 },
+  'Ragga HipHop': { genre: 'Hip Hop', bpm: 95, energy: 0.75, valence: 0.6 },
+  'RnB/Swing': { genre: 'Hip Hop', bpm: 95, energy: 0.6, valence: 0.7 },
+  Screw: { genre: 'Hip Hop', bpm: 65, energy: 0.3, valence: 0.3 },
+  'Thug Rap': { genre: 'Hip Hop', bpm: 90, energy: 0.75, valence: 0.3 },
+  Trap: { genre: 'Hip Hop', bpm: 70, energy: 0.75, valence: 0.35 },
+  Turntablism: { genre: 'Hip Hop', bpm: 95, energy: 0.7, valence: 0.5 },
+
+  // Jazz
+  'Afro-Cuban Jazz': { genre: 'Jazz', bpm: 125, energy: 0.7, valence: 0.75 },
+  'Avant-garde Jazz': { genre: 'Jazz', bpm: 110, energy: 0.6, valence: 0.3 },
+  'Big Band': { genre: 'Jazz', bpm: 135, energy: 0.7, valence: 0.8 },
+  Bop: { genre: 'Jazz', bpm: 180, energy: 0.75, valence: 0.65 },
+  'Bossa Nova': { genre: 'Jazz', bpm: 100, energy: 0.3, valence: 0.7 },
+  'Contemporary Jazz': { genre: 'Jazz', bpm: 105, energy: 0.45, valence: 0.6 },
+  'Cool Jazz': { genre: 'Jazz', bpm: 110, energy: 0.35, valence: 0.55 },
+  Dixieland: { genre: 'Jazz', bpm: 160, energy: 0.75, valence: 0.9 },
+  'Easy Listening': { genre: 'Jazz', bpm: 95, energy: 0.2, valence: 0.75 },
+  'Free Improvisation': { genre: 'Jazz', bpm: 100, energy: 0.55, valence: 0.3 },
+  'Free Jazz': { genre: 'Jazz', bpm: 140, energy: 0.8, valence: 0.3 },
+  Fusion: { genre: 'Jazz', bpm: 120, energy: 0.7, valence: 0.6 },
+  'Gypsy Jazz': { genre: 'Jazz', bpm: 170, energy: 0.7, valence: 0.75 },
+  'Hard Bop': { genre: 'Jazz', bpm: 160, energy: 0.7, valence: 0.6 },
+  'Jazz-Funk': { genre: 'Jazz', bpm: 105, energy: 0.7, valence: 0.75 },
+  'Jazz-Rock': { genre: 'Jazz', bpm: 120, energy: 0.75, valence: 0.55 },
+  'Latin Jazz': { genre: 'Jazz', bpm: 125, energy: 0.7, valence: 0.75 },
+  Modal: { genre: 'Jazz', bpm: 120, energy: 0.5, valence: 0.5 },
+  'Post Bop': { genre: 'Jazz', bpm: 140, energy: 0.6, valence: 0.5 },
+  Ragtime: { genre: 'Jazz', bpm: 110, energy: 0.6, valence: 0.9 },
+  'Smooth Jazz': { genre: 'Jazz', bpm: 90, energy: 0.3, valence: 0.7 },
+  'Soul-Jazz': { genre: 'Jazz', bpm: 110, energy: 0.6, valence: 0.7 },
+  'Space-Age': { genre: 'Jazz', bpm: 110, energy: 0.45, valence: 0.8 },
+  'Spiritual Jazz': { genre: 'Jazz', bpm: 100, energy: 0.5, valence: 0.55 },
+  Swing: { genre: 'Jazz', bpm: 150, energy: 0.7, valence: 0.85 },
+
+  // Latin
+  Axé: { genre: 'Latin', bpm: 130, energy: 0.85, valence: 0.9 },
+  Bachata: { genre: 'Latin', bpm: 125, energy: 0.6, valence: 0.6 },
+  Baião: { genre: 'Latin', bpm: 110, energy: 0.65, valence: 0.8 },
+  Batucada: { genre: 'Latin', bpm: 140, energy: 0.9, valence: 0.85 },
+  Beguine: { genre: 'Latin', bpm: 110, energy: 0.55, valence: 0.75 },
+  Bolero: { genre: 'Latin', bpm: 80, energy: 0.3, valence: 0.35 },
+  Bomba: { genre: 'Latin', bpm: 120, energy: 0.75, valence: 0.75 },
+  Boogaloo: { genre: 'Latin', bpm: 120, energy: 0.75, valence: 0.85 },
+  Bossanova: { genre: 'Latin', bpm: 100, energy: 0.3, valence: 0.7 },
+  'Cha-Cha': { genre: 'Latin', bpm: 115, energy: 0.6, valence: 0.8 },
+  Charanga: { genre: 'Latin', bpm: 120, energy: 0.65, valence: 0.8 },
+  Choro: { genre: 'Latin', bpm: 115, energy: 0.55, valence: 0.75 },
+  Compas: { genre: 'Latin', bpm: 110, energy: 0.6, valence: 0.75 },
+  Cubano: { genre: 'Latin', bpm: 115, energy: 0.65, valence: 0.75 },
+  Cumbia: { genre: 'Latin', bpm: 95, energy: 0.65, valence: 0.8 },
+  Danzon: { genre: 'Latin', bpm: 100, energy: 0.45, valence: 0.65 },
+  Descarga: { genre: 'Latin', bpm: 130, energy: 0.8, valence: 0.75 },
+  Forró: { genre: 'Latin', bpm: 120, energy: 0.75, valence: 0.85 },
+  Guaguancó: { genre: 'Latin', bpm: 115, energy: 0.7, valence: 0.7 },
+  Guajira: { genre: 'Latin', bpm: 100, energy: 0.45, valence: 0.65 },
+  Guaracha: { genre: 'Latin', bpm: 120, energy: 0.7, valence: 0.85 },
+  Mambo: { genre: 'Latin', bpm: 130, energy: 0.8, valence: 0.85 },
+  Mariachi: { genre: 'Latin', bpm: 115, energy: 0.65, valence: 0.7 },
+  Merengue: { genre: 'Latin', bpm: 140, energy: 0.85, valence: 0.9 },
+  MPB: { genre: 'Latin', bpm: 100, energy: 0.45, valence: 0.6 },
+  Norteño: { genre: 'Latin', bpm: 115, energy: 0.6, valence: 0.7 },
+  'Nueva Cancion': { genre: 'Latin', bpm: 90, energy: 0.35, valence: 0.4 },
+  Pachanga: { genre: 'Latin', bpm: 130, energy: 0.75, valence: 0.85 },
+  Plena: { genre: 'Latin', bpm: 120, energy: 0.7, valence: 0.8 },
+  Porro: { genre: 'Latin', bpm: 120, energy: 0.7, valence: 0.85 },
+  Ranchera: { genre: 'Latin', bpm: 100, energy: 0.5, valence: 0.45 },
+  Reggaeton: { genre: 'Latin', bpm: 95, energy: 0.8, valence: 0.7 },
+  Rumba: { genre: 'Latin', bpm: 110, energy: 0.7, valence: 0.8 },
+  Salsa: { genre: 'Latin', bpm: 180, energy: 0.85, valence: 0.8 },
+  Samba: { genre: 'Latin', bpm: 100, energy: 0.8, valence: 0.9 },
+  'Samba-Canção': { genre: 'Latin', bpm: 85, energy: 0.35, valence: 0.4 },
+  Son: { genre: 'Latin', bpm: 110, energy: 0.6, valence: 0.75 },
+  'Son Montuno': { genre: 'Latin', bpm: 115, energy: 0.65, valence: 0.75 },
+  Tango: { genre: 'Latin', bpm: 115, energy: 0.6, valence: 0.35 },
+  Tejano: { genre: 'Latin', bpm: 115, energy: 0.6, valence: 0.75 },
+  Tropicália: { genre: 'Latin', bpm: 110, energy: 0.6, valence: 0.7 },
+  Vallenato: { genre: 'Latin', bpm: 110, energy: 0.6, valence: 0.65 },
+
+  // Non-Music
+  Audiobook: { genre: 'Non-Music', bpm: 90, energy: 0.15, valence: 0.5 },
+  Comedy: { genre: 'Non-Music', bpm: 90, energy: 0.4, valence: 0.85 },
+  Dialogue: { genre: 'Non-Music', bpm: 90, energy: 0.2, valence: 0.5 },
+  Education: { genre: 'Non-Music', bpm: 90, energy: 0.2, valence: 0.5 },
+  'Field Recording': { genre: 'Non-Music', bpm: 70, energy: 0.15, valence: 0.5 },
+  Interview: { genre: 'Non-Music', bpm: 90, energy: 0.2, valence: 0.5 },
+  Monolog: { genre: 'Non-Music', bpm: 90, energy: 0.2, valence: 0.5 },
+  Poetry: { genre: 'Non-Music', bpm: 85, energy: 0.2, valence: 0.45 },
+  Political: { genre: 'Non-Music', bpm: 90, energy: 0.45, valence: 0.3 },
+  Promotional: { genre: 'Non-Music', bpm: 100, energy: 0.4, valence: 0.6 },
+  Radioplay: { genre: 'Non-Music', bpm: 90, energy: 0.3, valence: 0.5 },
+  Religious: { genre: 'Non-Music', bpm: 80, energy: 0.3, valence: 0.6 },
+  'Spoken Word': { genre: 'Non-Music', bpm: 90, energy: 0.2, valence: 0.5 },
+
+  // Pop
+  Ballad: { genre: 'Pop', bpm: 75, energy: 0.25, valence: 0.35 },
+  Bollywood: { genre: 'Pop', bpm: 110, energy: 0.7, valence: 0.8 },
+  Bubblegum: { genre: 'Pop', bpm: 125, energy: 0.7, valence: 0.95 },
+  Cantopop: { genre: 'Pop', bpm: 100, energy: 0.45, valence: 0.6 },
+  Chanson: { genre: 'Pop', bpm: 95, energy: 0.35, valence: 0.4 },
+  'City Pop': { genre: 'Pop', bpm: 110, energy: 0.6, valence: 0.8 },
+  Enka: { genre: 'Pop', bpm: 80, energy: 0.35, valence: 0.3 },
+  Europop: { genre: 'Pop', bpm: 122, energy: 0.7, valence: 0.85 },
+  'Indie Pop': { genre: 'Pop', bpm: 115, energy: 0.55, valence: 0.7 },
+  'J-pop': { genre: 'Pop', bpm: 125, energy: 0.7, valence: 0.8 },
+  'K-pop': { genre: 'Pop', bpm: 120, energy: 0.75, valence: 0.8 },
+  Kayōkyoku: { genre: 'Pop', bpm: 105, energy: 0.5, valence: 0.6 },
+  'Light Music': { genre: 'Pop', bpm: 100, energy: 0.3, valence: 0.75 },
+  Mandopop: { genre: 'Pop', bpm: 95, energy: 0.45, valence: 0.6 },
+  'Music Hall': { genre: 'Pop', bpm: 120, energy: 0.6, valence: 0.85 },
+  Novelty: { genre: 'Pop', bpm: 120, energy: 0.6, valence: 0.9 },
+  Schlager: { genre: 'Pop', bpm: 120, energy: 0.6, valence: 0.85 },
+  Vocal: { genre: 'Pop', bpm: 95, energy: 0.4, valence: 0.6 },
+
+  // Reggae
+  Calypso: { genre: 'Reggae', bpm: 110, energy: 0.7, valence: 0.9 },
+  Dancehall: { genre: 'Reggae', bpm: 95, energy: 0.75, valence: 0.65 },
+  Dub: { genre: 'Reggae', bpm: 75, energy: 0.45, valence: 0.45 },
+  'Lovers Rock': { genre: 'Reggae', bpm: 75, energy: 0.35, valence: 0.75 },
+  Ragga: { genre: 'Reggae', bpm: 95, energy: 0.8, valence: 0.6 },
+  Reggae: { genre: 'Reggae', bpm: 75, energy: 0.5, valence: 0.7 },
+  'Reggae Gospel': { genre: 'Reggae', bpm: 80, energy: 0.5, valence: 0.8 },
+  'Reggae-Pop': { genre: 'Reggae', bpm: 90, energy: 0.55, valence: 0.8 },
+  Rocksteady: { genre: 'Reggae', bpm: 80, energy: 0.5, valence: 0.75 },
+  'Roots Reggae': { genre: 'Reggae', bpm: 75, energy: 0.45, valence: 0.6 },
+  Ska: { genre: 'Reggae', bpm: 140, energy: 0.8, valence: 0.85 },
+  Soca: { genre: 'Reggae', bpm: 160, energy: 0.9, valence: 0.95 },
+
+  // Rock
+  'Acid Rock': { genre: 'Rock', bpm: 115, energy: 0.7, valence: 0.5 },
+  Acoustic: { genre: 'Rock', bpm: 95, energy: 0.25, valence: 0.55 },
+  'Alternative Rock': { genre: 'Rock', bpm: 120, energy: 0.7, valence: 0.45 },
+  'Arena Rock': { genre: 'Rock', bpm: 125, energy: 0.8, valence: 0.65 },
+  'Art Rock': { genre: 'Rock', bpm: 110, energy: 0.55, valence: 0.45 },
+  'Atmospheric Black Metal': { genre: 'Rock', bpm: 150, energy: 0.75, valence: 0.1 },
+  Avantgarde: { genre: 'Rock', bpm: 105, energy: 0.55, valence: 0.3 },
+  Beat: { genre: 'Rock', bpm: 135, energy: 0.7, valence: 0.8 },
+  'Black Metal': { genre: 'Rock', bpm: 180, energy: 0.95, valence: 0.05 },
+  'Blues Rock': { genre: 'Rock', bpm: 115, energy: 0.7, valence: 0.45 },
+  'Brit Pop': { genre: 'Rock', bpm: 120, energy: 0.65, valence: 0.65 },
+  'Classic Rock': { genre: 'Rock', bpm: 120, energy: 0.7, valence: 0.6 },
+  Coldwave: { genre: 'Rock', bpm: 125, energy: 0.55, valence: 0.15 },
+  'Country Rock': { genre: 'Rock', bpm: 115, energy: 0.6, valence: 0.65 },
+  Crust: { genre: 'Rock', bpm: 170, energy: 0.95, valence: 0.15 },
+  'Death Metal': { genre: 'Rock', bpm: 180, energy: 1, valence: 0.05 },
+  Deathcore: { genre: 'Rock', bpm: 150, energy: 1, valence: 0.05 },
+  Deathrock: { genre: 'Rock', bpm: 135, energy: 0.7, valence: 0.15 },
+  'Depressive Black Metal': { genre: 'Rock', bpm: 100, energy: 0.65, valence: 0.02 },
+  'Doo Wop': { genre: 'Rock', bpm: 110, energy: 0.45, valence: 0.75 },
+  'Doom Metal': { genre: 'Rock', bpm: 65, energy: 0.75, valence: 0.1 },
+  'Dream Pop': { genre: 'Rock', bpm: 100, energy: 0.3, valence: 0.45 },
+  Emo: { genre: 'Rock', bpm: 140, energy: 0.75, valence: 0.25 },
+  Ethereal: { genre: 'Rock', bpm: 85, energy: 0.2, valence: 0.45 },
+  'Folk Metal': { genre: 'Rock', bpm: 160, energy: 0.85, valence: 0.55 },
+  'Folk Rock': { genre: 'Rock', bpm: 110, energy: 0.5, valence: 0.55 },
+  'Funeral Doom Metal': { genre: 'Rock', bpm: 50, energy: 0.6, valence: 0.02 },
+  'Funk Metal': { genre: 'Rock', bpm: 120, energy: 0.85, valence: 0.5 },
+  'Garage Rock': { genre: 'Rock', bpm: 140, energy: 0.8, valence: 0.6 },
+  Glam: { genre: 'Rock', bpm: 125, energy: 0.75, valence: 0.7 },
+  Goregrind: { genre: 'Rock', bpm: 190, energy: 1, valence: 0.05 },
+  'Goth Rock': { genre: 'Rock', bpm: 125, energy: 0.6, valence: 0.15 },
+  'Gothic Metal': { genre: 'Rock', bpm: 110, energy: 0.75, valence: 0.15 },
+  Grindcore: { genre: 'Rock', bpm: 200, energy: 1, valence: 0.05 },
+  Grunge: { genre: 'Rock', bpm: 115, energy: 0.75, valence: 0.25 },
+  'Hard Rock': { genre: 'Rock', bpm: 125, energy: 0.85, valence: 0.5 },
+  'Heavy Metal': { genre: 'Rock', bpm: 140, energy: 0.9, valence: 0.35 },
+  'Horror Rock': { genre: 'Rock', bpm: 140, energy: 0.8, valence: 0.3 },
+  'Indie Rock': { genre: 'Rock', bpm: 125, energy: 0.65, valence: 0.5 },
+  'Industrial Metal': { genre: 'Rock', bpm: 125, energy: 0.9, valence: 0.15 },
+  'J-Rock': { genre: 'Rock', bpm: 140, energy: 0.8, valence: 0.55 },
+  'K-Rock': { genre: 'Rock', bpm: 130, energy: 0.75, valence: 0.55 },
+  Krautrock: { genre: 'Rock', bpm: 125, energy: 0.6, valence: 0.45 },
+  Lounge: { genre: 'Rock', bpm: 100, energy: 0.25, valence: 0.75 },
+  'Math Rock': { genre: 'Rock', bpm: 130, energy: 0.7, valence: 0.45 },
+  'Melodic Death Metal': { genre: 'Rock', bpm: 165, energy: 0.95, valence: 0.2 },
+  'Melodic Hardcore': { genre: 'Rock', bpm: 170, energy: 0.9, valence: 0.4 },
+  Metalcore: { genre: 'Rock', bpm: 150, energy: 0.95, valence: 0.2 },
+  Mod: { genre: 'Rock', bpm: 130, energy: 0.7, valence: 0.75 },
+  Neofolk: { genre: 'Rock', bpm: 90, energy: 0.35, valence: 0.2 },
+  'New Wave': { genre: 'Rock', bpm: 130, energy: 0.65, valence: 0.6 },
+  'No Wave': { genre: 'Rock', bpm: 130, energy: 0.75, valence: 0.25 },
+  Noisecore: { genre: 'Rock', bpm: 200, energy: 1, valence: 0.1 },
+  'Nu Metal': { genre: 'Rock', bpm: 105, energy: 0.9, valence: 0.2 },
+  Oi: { genre: 'Rock', bpm: 150, energy: 0.85, valence: 0.45 },
+  Parody: { genre: 'Rock', bpm: 120, energy: 0.6, valence: 0.9 },
+  'Pop Punk': { genre: 'Rock', bpm: 170, energy: 0.85, valence: 0.7 },
+  'Pop Rock': { genre: 'Rock', bpm: 120, energy: 0.6, valence: 0.7 },
+  Pornogrind: { genre: 'Rock', bpm: 190, energy: 1, valence: 0.1 },
+  'Post Rock': { genre: 'Rock', bpm: 100, energy: 0.5, valence: 0.35 },
+  'Post-Hardcore': { genre: 'Rock', bpm: 150, energy: 0.85, valence: 0.3 },
+  'Post-Metal': { genre: 'Rock', bpm: 90, energy: 0.75, valence: 0.2 },
+  'Post-Punk': { genre: 'Rock', bpm: 135, energy: 0.65, valence: 0.25 },
+  'Power Metal': { genre: 'Rock', bpm: 170, energy: 0.9, valence: 0.65 },
+  'Power Pop': { genre: 'Rock', bpm: 135, energy: 0.7, valence: 0.8 },
+  'Power Violence': { genre: 'Rock', bpm: 200, energy: 1, valence: 0.1 },
+  'Prog Rock': { genre: 'Rock', bpm: 115, energy: 0.6, valence: 0.5 },
+  'Progressive Metal': { genre: 'Rock', bpm: 130, energy: 0.85, valence: 0.35 },
+  'Psychedelic Rock': { genre: 'Rock', bpm: 110, energy: 0.6, valence: 0.55 },
+  Psychobilly: { genre: 'Rock', bpm: 180, energy: 0.9, valence: 0.5 },
+  'Pub Rock': { genre: 'Rock', bpm: 135, energy: 0.7, valence: 0.65 },
+  Punk: { genre: 'Rock', bpm: 170, energy: 0.9, valence: 0.4 },
+  'Riot Grrrl': { genre: 'Rock', bpm: 160, energy: 0.9, valence: 0.4 },
+  'Rock & Roll': { genre: 'Rock', bpm: 160, energy: 0.8, valence: 0.85 },
+  Rockabilly: { genre: 'Rock', bpm: 170, energy: 0.8, valence: 0.8 },
+  Sadcore: { genre: 'Rock', bpm: 75, energy: 0.2, valence: 0.1 },
+  Shoegaze: { genre: 'Rock', bpm: 115, energy: 0.55, valence: 0.35 },
+  Skiffle: { genre: 'Rock', bpm: 150, energy: 0.65, valence: 0.8 },
+  Slowcore: { genre: 'Rock', bpm: 70, energy: 0.2, valence: 0.15 },
+  'Sludge Metal': { genre: 'Rock', bpm: 75, energy: 0.85, valence: 0.1 },
+  'Soft Rock': { genre: 'Rock', bpm: 100, energy: 0.35, valence: 0.65 },
+  'Southern Rock': { genre: 'Rock', bpm: 115, energy: 0.7, valence: 0.6 },
+  'Space Rock': { genre: 'Rock', bpm: 115, energy: 0.6, valence: 0.4 },
+  'Speed Metal': { genre: 'Rock', bpm: 190, energy: 0.95, valence: 0.4 },
+  'Stoner Rock': { genre: 'Rock', bpm: 95, energy: 0.75, valence: 0.4 },
+  Surf: { genre: 'Rock', bpm: 160, energy: 0.75, valence: 0.85 },
+  'Symphonic Rock': { genre: 'Rock', bpm: 110, energy: 0.6, valence: 0.5 },
+  'Technical Death Metal': { genre: 'Rock', bpm: 200, energy: 1, valence: 0.05 },
+  Thrash: { genre: 'Rock', bpm: 190, energy: 0.95, valence: 0.25 },
+  Twist: { genre: 'Rock', bpm: 150, energy: 0.75, valence: 0.9 },
+  'Viking Metal': { genre: 'Rock', bpm: 130, energy: 0.85, valence: 0.3 },
+  'Yé-Yé': { genre: 'Rock', bpm: 130, energy: 0.6, valence: 0.85 },
+
+  // Stage & Screen
+  Musical: { genre: 'Stage & Screen', bpm: 110, energy: 0.6, valence: 0.8 },
+  Score: { genre: 'Stage & Screen', bpm: 90, energy: 0.45, valence: 0.45 },
+  Soundtrack: { genre: 'Stage & Screen', bpm: 95, energy: 0.45, valence: 0.5 },
+  Theme: { genre: 'Stage & Screen', bpm: 110, energy: 0.55, valence: 0.6 },
+};
+
+// What the quiz's genre picker and Explore's genre filter offer
+export const GENRE_GROUPS: GenreGroup[] = [
+  { label: 'Rock', genres: ['Rock'], styles: [] },
+  { label: 'Jazz', genres: ['Jazz'], styles: [] },
+  { label: 'Electronic', genres: ['Electronic'], styles: [] },
+  { label: 'Hip Hop', genres: ['Hip Hop'], styles: [] },
+  { label: 'Classical', genres: ['Classical'], styles: [] },
+  { label: 'Pop', genres: ['Pop'], styles: [] },
+  {
+    label: 'Metal',
+    genres: [],
+    styles: [
+      'Heavy Metal', 'Black Metal', 'Atmospheric Black Metal', 'Depressive Black Metal', 'Death Metal',
+      'Melodic Death Metal', 'Technical Death Metal', 'Doom Metal', 'Funeral Doom Metal', 'Sludge Metal',
+      'Thrash', 'Speed Metal', 'Power Metal', 'Progressive Metal', 'Gothic Metal', 'Folk Metal', 'Viking Metal',
+      'Industrial Metal', 'Nu Metal', 'Funk Metal', 'Post-Metal', 'Metalcore', 'Deathcore', 'Grindcore',
+      'Goregrind',
+    ],
+  },
+  { label: 'Folk', genres: [], styles: ['Folk', 'Folk Rock', 'Neofolk', 'Celtic', 'Nordic', 'Acoustic'] },
+  { label: 'Blues', genres: ['Blues'], styles: ['Blues Rock'] },
+  {
+    label: 'Country',
+    genres: [],
+    styles: ['Country', 'Country Rock', 'Bluegrass', 'Honky Tonk', 'Hillbilly', 'Cajun', 'Country Blues'],
+  },
+  { label: 'Reggae', genres: ['Reggae'], styles: [] },
+  {
+    label: 'Punk',
+    genres: [],
+    styles: [
+      'Punk', 'Pop Punk', 'Post-Punk', 'Hardcore', 'Melodic Hardcore', 'Post-Hardcore', 'Oi', 'Crust',
+      'Riot Grrrl', 'Psychobilly', 'Power Violence', 'No Wave',
+    ],
+  },
+  {
+    label: 'R&B',
+    genres: [],
+    styles: ['Rhythm & Blues', 'Contemporary R&B', 'RnB/Swing', 'New Jack Swing', 'Swingbeat', 'Neo Soul'],
+  },
+  {
+    label: 'Soul',
+    genres: [],
+    styles: ['Soul', 'Neo Soul', 'Northern Soul', 'UK Street Soul', 'Soul-Jazz', 'Gospel'],
+  },
+  {
+    label: 'Funk',
+    genres: [],
+    styles: ['Funk', 'P.Funk', 'Jazz-Funk', 'Free Funk', 'Boogie', 'Minneapolis Sound', 'Go-Go', 'Bayou Funk', 'G-Funk'],
+  },
+  {
+    label: 'Disco',
+    genres: [],
+    styles: ['Disco', 'Italo-Disco', 'Euro-Disco', 'Nu-Disco', 'Hi NRG', 'Disco Polo'],
+  },
+  {
+    label: 'Alternative',
+    genres: [],
+    styles: ['Alternative Rock', 'Grunge', 'Shoegaze', 'Dream Pop', 'Post Rock', 'Math Rock', 'Emo', 'Brit Pop'],
+  },
+  { label: 'Indie', genres: [], styles: ['Indie Rock', 'Indie Pop', 'Lo-Fi', 'Chillwave'] },
+];
+
+export const DISCOGS_GENRES = Object.keys(GENRES) as DiscogsGenre[];
+
+// BPM difference that weighs as much as the whole energy or valence scale
+const BPM_SCALE = 100;
+// Distance in (tempo, energy, valence) space at which two sounds count as unrelated
+const PROFILE_FALLOFF = 0.5;
+// Most a style outside a group can score against it: more when it shares the group's parent genre
+const SAME_GENRE_BASE = 0.4;
+const SAME_GENRE_MAX = 0.7;
+const OTHER_GENRE_MAX = 0.4;
+
+/**
+ * Look up a style by its Discogs name
+ */
+export function getStyle(name: string): StyleInfo | undefined {
+  const style = STYLES[name];
+  return style ? { name, ...style } : undefined;
+}
+
+/**
+ * Look up a genre's typical character by its Discogs name
+ */
+export function getGenre(name: string): MoodProfile | undefined {
+  return GENRES[name as DiscogsGenre];
+}
+
+/**
+ * Every style filed under a genre
+ */
+export function stylesOfGenre(genre: DiscogsGenre): StyleInfo[] {
+  return Object.keys(STYLES)
+    .filter((name) => STYLES[name].genre === genre)
+    .map((name) => ({ name, ...STYLES[name] }));
+}
+
+/**
+ * Find a quiz/Explore genre group by its label (case-insensitive)
+ */
+export function getGenreGroup(label: string): GenreGroup | undefined {
+  const lowered = label.toLowerCase();
+  return GENRE_GROUPS.find((group) => group.label.toLowerCase() === lowered);
+}
+
+/**
+ * Check if a record with these Discogs genres and styles belongs to a group
+ */
+export function matchesGenreGroup(group: GenreGroup, genres: string[] = [], styles: string[] = []): boolean {
+  return (
+    genres.some((genre) => group.genres.includes(genre as DiscogsGenre)) ||
+    styles.some((style) => group.styles.includes(style))
+  );
+}
+
+/**
+ * Check if a single genre or style falls inside a group, directly or through its parent genre
+ */
+export function isInGenreGroup(group: GenreGroup, name: string): boolean {
+  const style = getStyle(name);
+  return (
+    group.genres.includes(name as DiscogsGenre) ||
+    group.styles.includes(name) ||
+    (!!style && group.genres.includes(style.genre))
+  );
+}
+
+/**
+ * How alike two sounds are, from 0 (unrelated) to 1 (the same)
+ */
+function profileCloseness(a: MoodProfile, b: MoodProfile): number {
+  const distance = Math.hypot((a.bpm - b.bpm) / BPM_SCALE, a.energy - b.energy, a.valence - b.valence);
+  return Math.max(0, 1 - distance / PROFILE_FALLOFF);
+}
+
+/**
+ * Known styles and genres of a record (or a group), with the genre each belongs to
+ */
+function taxonomyEntries(genres: string[], styles: string[]): StyleInfo[] {
+  return [
+    ...styles.flatMap((name) => getStyle(name) ?? []),
+    ...genres.flatMap((name) => {
+      const genre = name as DiscogsGenre;
+      return GENRES[genre] ? [{ name, genre, ...GENRES[genre] }] : [];
+    }),
+  ];
+}
+
+/**
+ * How close a record with these genres and styles comes to a group, from 0 to 1,
+ * and which of its genres or styles got it there
+ * Members score 1. Otherwise the nearest pair of styles counts partly, more when
+ * they share a parent genre, e.g. Hard Rock against the Metal group.
+ */
+export function genreGroupSimilarity(
+  group: GenreGroup,
+  genres: string[] = [],
+  styles: string[] = []
+): { similarity: number; via: string | null } {
+  const member = [...styles, ...genres].find((name) => matchesGenreGroup(group, [name], [name]));
+  if (member) return { similarity: 1, via: member };
+
+  const members = taxonomyEntries(group.genres, group.styles);
+  let best: { similarity: number; via: string | null } = { similarity: 0, via: null };
+  taxonomyEntries(genres, styles).forEach((entry) => {
+    members.forEach((candidate) => {
+      const closeness = profileCloseness(entry, candidate);
+      const similarity =
+        entry.genre === candidate.genre
+          ? SAME_GENRE_BASE + (SAME_GENRE_MAX - SAME_GENRE_BASE) * closeness
+          : OTHER_GENRE_MAX * closeness;
+      if (similarity > best.similarity) {
+        best = { similarity, via: entry.name };
+      }
+    });
+  });
+  return best;
+}
@@ -5,7 +5,17 @@
  */
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { User, getCurrentUser, signIn, signOut, signUp, isSignedIn } from '@/services/userAuth';
+import {
+  User,
+  getCurrentUser,
+  signIn,
+  signOut,
+  signUp,
+  changePassword,
+  deleteAccount,
+} from '@/services/userAuth';
+import { getExpiredAccounts, validateLinkedAccounts } from '@/services/discogsAuth';
+import { DiscogsAccount } from '@/types';
 
 interface AuthContextType {
   user: User | null;
@@ -13,7 +23,12 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  deleteAccount: (password?: string) => Promise<void>;
   refreshUser: () => Promise<void>;
+  // Linked Discogs accounts whose tokens Discogs no longer accepts
+  expiredAccounts: DiscogsAccount[];
+  refreshDiscogsLinks: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -21,15 +36,28 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [expiredAccounts, setExpiredAccounts] = useState<DiscogsAccount[]>([]);
 
   useEffect(() => {
     loadUser();
   }, []);
 
+  // Check the stored Discogs links in the background; revoked ones get flagged
+  const checkDiscogsLinks = (userId: string) => {
+    validateLinkedAccounts(userId)
+      .then(setExpiredAccounts)
+      .catch((error) => console.error('Error validating Discogs accounts:', error));
+  };
+
   const loadUser = async () => {
     try {
       const currentUser = await getCurrentUser();
       setUser(currentUser);
+      if (currentUser) {
+        checkDiscogsLinks(currentUser.id);
+      } else {
+        setExpiredAccounts([]);
+      }
     } catch (error) {
       console.error('Error loading user:', error);
     } finally {
@@ -40,6 +68,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const handleSignIn = async (email: string, password: string) => {
     const signedInUser = await signIn(email, password);
     setUser(signedInUser);
+    checkDiscogsLinks(signedInUser.id);
   };
 
   const handleSignUp = async (email: string, password: string) => {
@@ -50,12 +79,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const handleSignOut = async () => {
     await signOut();
     setUser(null);
+    setExpiredAccounts([]);
+  };
+
+  const handleChangePassword = async (currentPassword: string, newPassword: string) => {
+    await changePassword(currentPassword, newPassword);
+  };
+
+  const handleDeleteAccount = async (password?: string) => {
+    await deleteAccount(password);
+    setUser(null);
   };
 
   const refreshUser = async () => {
     await loadUser();
   };
 
+  const refreshDiscogsLinks = async () => {
+    setExpiredAccounts(user ? await getExpiredAccounts(user.id) : []);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -64,7 +107,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         signIn: handleSignIn,
         signUp: handleSignUp,
         signOut: handleSignOut,
+        changePassword: handleChangePassword,
+        deleteAccount: handleDeleteAccount,
         refreshUser,
+        expiredAccounts,
+        refreshDiscogsLinks,
       }}>
       {children}
     </AuthContext.Provider>
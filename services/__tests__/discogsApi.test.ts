@@ -0,0 +1,55 @@
+import { DiscogsApiError, getRelease } from '@/services/discogsApi';
+import { makeAuthenticatedRequest } from '@/services/discogsAuth';
+
+jest.mock('@/services/discogsAuth', () => ({
+  makeAuthenticatedRequest: jest.fn(),
+  DiscogsAuthExpiredError: class extends Error {},
+}));
+
+const mockRequest = makeAuthenticatedRequest as jest.Mock;
+
+const RELEASE = {
+  id: 249504,
+  title: 'Never Gonna Give You Up',
+  year: 1987,
+  country: 'UK',
+  data_quality: 'Correct',
+  artists: [{ id: 72872, name: 'Rick Astley', anv: '', join: '', role: '', extra: true }],
+  genres: ['Electronic', 'Pop'],
+  styles: ['Synth-pop'],
+  tracklist: [
+    { position: 'A', title: 'Never Gonna Give You Up', duration: '3:32', type_: 'track', extraartists: [] },
+    { position: 'B', title: 'Never Gonna Give You Up (Instrumental)' },
+  ],
+  images: [{ type: 'primary', uri: 'https://i.discogs.com/a.jpg', width: 600, height: 600 }],
+  formats: [{ name: 'Vinyl', qty: '1', descriptions: ['7"', 'Single', '45 RPM'] }],
+  labels: [{ id: 895, name: 'RCA', catno: 'PB 41447', entity_type: '1' }],
+};
+
+describe('getRelease', () => {
+  beforeEach(() => mockRequest.mockReset());
+
+  it('keeps only the declared fields and fills in defaults', async () => {
+    mockRequest.mockResolvedValue(RELEASE);
+    const release = await getRelease(249504);
+
+    expect(release).not.toHaveProperty('data_quality');
+    expect(release.artists[0]).not.toHaveProperty('extra');
+    expect(release.tracklist[0]).toEqual({
+      position: 'A',
+      title: 'Never Gonna Give You Up',
+      duration: '3:32',
+      type_: 'track',
+    });
+    expect(release.tracklist[1]).toMatchObject({ duration: '', type_: 'track' });
+    expect(release.images[0]).toMatchObject({ uri150: '', resource_url: '' });
+    expect(release.formats[0].descriptions).toEqual(['7"', 'Single', '45 RPM']);
+    expect(release.labels[0]).toEqual({ name: 'RCA', catno: 'PB 41447' });
+  });
+
+  it('rejects nested items of the wrong shape', async () => {
+    mockRequest.mockResolvedValue({ ...RELEASE, formats: [{ qty: '1' }] });
+    await expect(getRelease(249504)).rejects.toThrow(DiscogsApiError);
+    await expect(getRelease(249504)).rejects.toThrow('release.formats[0].name is not a string');
+  });
+});
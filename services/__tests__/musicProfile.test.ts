@@ -0,0 +1,45 @@
+import { estimateMusicProfile, scoreTempo } from '@/services/musicProfile';
+import { CollectionItem, ReleaseData } from '@/types';
+
+const item = {
+  basic_information: { id: 1, title: 'Slow Burn', genres: ['Rock'], styles: ['Doom Metal'] },
+} as CollectionItem;
+
+function withTracks(durations: string[]): ReleaseData {
+  return {
+    id: 1,
+    title: 'Slow Burn',
+    artists: [],
+    year: 1990,
+    genres: ['Rock'],
+    styles: ['Doom Metal'],
+    tracklist: [
+      { position: '', title: 'Side A', duration: '', type_: 'heading' },
+      ...durations.map((duration, i) => ({ position: `${i + 1}`, title: `Track ${i + 1}`, duration, type_: 'track' })),
+    ],
+    images: [],
+    formats: [],
+    labels: [],
+  };
+}
+
+describe('estimateMusicProfile', () => {
+  it('goes by styles alone without a tracklist', () => {
+    const profile = estimateMusicProfile(item);
+    expect(profile?.bpm).toBe(65);
+    expect(profile?.averageTrackSeconds).toBeNull();
+  });
+
+  it('blends in the album pace from track durations, skipping headings', () => {
+    const profile = estimateMusicProfile(item, withTracks(['2:00', '2:00', '2:00']));
+    expect(profile?.averageTrackSeconds).toBe(120);
+    // 70% styles (65 BPM) and 30% pace (short tracks, 170 BPM)
+    expect(profile?.bpm).toBeCloseTo(65 * 0.7 + 170 * 0.3);
+  });
+
+  it('lets a brisk album lift the tempo fit', () => {
+    const stylesOnly = estimateMusicProfile(item)!;
+    const brisk = estimateMusicProfile(item, withTracks(['1:50', '2:05', '1:58']))!;
+    expect(scoreTempo(brisk, 'medium')).toBeGreaterThan(scoreTempo(stylesOnly, 'medium'));
+  });
+});
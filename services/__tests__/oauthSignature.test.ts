@@ -0,0 +1,83 @@
+import { buildSignatureBaseString, percentEncode, signRequest } from '@/services/oauthSignature';
+
+// RFC 5849 section 3.4.1.1: a POST with query, body and oauth_* parameters
+const BASE_STRING_REQUEST = {
+  method: 'POST',
+  url: 'http://example.com/request?b5=%3D%253D&a3=a&c%40=&a2=r%20b',
+  oauthParams: {
+    oauth_consumer_key: '9djdj82h48djs9d2',
+    oauth_token: 'kkk9d7dh3k39sjv7',
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: '137131201',
+    oauth_nonce: '7d8f3e4a',
+  },
+  requestParams: { c2: '', a3: '2 q' },
+  consumerSecret: 'j49sk3j29djd',
+  tokenSecret: 'dh893hdasih9',
+};
+
+// The photos.example.net request used as the HMAC-SHA1 reference example
+const PHOTOS_REQUEST = {
+  method: 'GET',
+  url: 'http://photos.example.net/photos?file=vacation.jpg&size=original',
+  oauthParams: {
+    oauth_consumer_key: 'dpf43f3p2l4k3l03',
+    oauth_token: 'nnch734d00sl2jdk',
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: '1191242096',
+    oauth_nonce: 'kllo9940pd9333jh',
+    oauth_version: '1.0',
+  },
+  consumerSecret: 'kd94hf93k423kf44',
+  tokenSecret: 'pfkkdhi9sl3r4s00',
+};
+
+describe('buildSignatureBaseString', () => {
+  it('matches the RFC 5849 section 3.4.1.1 example', () => {
+    expect(buildSignatureBaseString(BASE_STRING_REQUEST)).toBe(
+      'POST&http%3A%2F%2Fexample.com%2Frequest&a2%3Dr%2520b%26a3%3D2%2520q%26a3%3Da%26b5%3D%253D%25253D%26c%2540%3D%26c2%3D%26oauth_consumer_key%3D9djdj82h48djs9d2%26oauth_nonce%3D7d8f3e4a%26oauth_signature_method%3DHMAC-SHA1%26oauth_timestamp%3D137131201%26oauth_token%3Dkkk9d7dh3k39sjv7'
+    );
+  });
+
+  it('leaves realm and oauth_signature out and drops default ports', () => {
+    const withExtras = {
+      ...PHOTOS_REQUEST,
+      url: 'HTTP://Photos.Example.NET:80/photos?file=vacation.jpg&size=original',
+      oauthParams: { ...PHOTOS_REQUEST.oauthParams, realm: 'Photos', oauth_signature: 'ignored' },
+    };
+    expect(buildSignatureBaseString(withExtras)).toBe(buildSignatureBaseString(PHOTOS_REQUEST));
+  });
+});
+
+describe('signRequest', () => {
+  it('produces the reference HMAC-SHA1 signature', () => {
+    expect(buildSignatureBaseString(PHOTOS_REQUEST)).toBe(
+      'GET&http%3A%2F%2Fphotos.example.net%2Fphotos&file%3Dvacation.jpg%26oauth_consumer_key%3Ddpf43f3p2l4k3l03%26oauth_nonce%3Dkllo9940pd9333jh%26oauth_signature_method%3DHMAC-SHA1%26oauth_timestamp%3D1191242096%26oauth_token%3Dnnch734d00sl2jdk%26oauth_version%3D1.0%26size%3Doriginal'
+    );
+    expect(signRequest(PHOTOS_REQUEST, 'HMAC-SHA1')).toBe('tR3+Ty81lMeYAr/Fid0kMTYa/WM=');
+  });
+
+  it('signs PLAINTEXT with the encoded secrets joined by "&"', () => {
+    expect(signRequest(PHOTOS_REQUEST, 'PLAINTEXT')).toBe('kd94hf93k423kf44&pfkkdhi9sl3r4s00');
+    expect(signRequest({ ...PHOTOS_REQUEST, consumerSecret: 'a&b c', tokenSecret: undefined }, 'PLAINTEXT')).toBe(
+      'a%26b%20c&'
+    );
+  });
+});
+
+describe('percentEncode', () => {
+  it('leaves unreserved characters alone', () => {
+    expect(percentEncode('AZaz09-._~')).toBe('AZaz09-._~');
+  });
+
+  it('encodes reserved characters, including those encodeURIComponent skips', () => {
+    expect(percentEncode("!*'()")).toBe('%21%2A%27%28%29');
+    expect(percentEncode(' &=+/?#%')).toBe('%20%26%3D%2B%2F%3F%23%25');
+  });
+
+  it('encodes non-ASCII characters as UTF-8 bytes', () => {
+    expect(percentEncode('é')).toBe('%C3%A9');
+    expect(percentEncode('☃')).toBe('%E2%98%83');
+    expect(percentEncode('🎵')).toBe('%F0%9F%8E%B5');
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  applyRating,
+  drawRecommendations,
+  rankRecommendations,
+  rescoreRecommendations,
+} from '@/services/recommendationEngine';
+import { CollectionItem, QuizAnswers } from '@/types';
+
+const answers: QuizAnswers = {
+  mood: 'energetic',
+  tempo: 'fast',
+  genres: ['Rock'],
+  decade: '1980s',
+  format: 'both',
+  language: 'all',
+};
+
+// A Rock record whose score rises with how close it is to the 1980s and how it was rated
+function record(id: number, year: number, rating: number): CollectionItem {
+  return {
+    id,
+    instance_id: id,
+    date_added: '',
+    rating,
+    folder_id: 1,
+    basic_information: {
+      id,
+      master_id: null,
+      master_url: null,
+      resource_url: '',
+      thumb: '',
+      cover_image: '',
+      title: `Record ${id}`,
+      year,
+      formats: [{ name: 'Vinyl', qty: '1', descriptions: ['LP', 'Album'] }],
+      labels: [],
+      artists: [{ name: `Artist ${id}`, anv: '', join: '', role: '', tracks: '', id, resource_url: '' }],
+      genres: ['Rock'],
+      styles: ['Punk'],
+    },
+  } as CollectionItem;
+}
+
+// Best first: record 1 is from the 1980s and rated 5, the rest unrated and a year further back each
+const collection = Array.from({ length: 12 }, (_, i) => (i === 0 ? record(1, 1985, 5) : record(i + 1, 1979 - i, 0)));
+
+function firstPicks(surprise: number, seeds: number): number[] {
+  return Array.from({ length: seeds }, (_, seed) =>
+    rankRecommendations(collection, { ...answers, surprise }, 1, undefined, { seed })[0].releaseData.id
+  );
+}
+
+describe('rankRecommendations', () => {
+  it('scores the first record of the fixture highest', () => {
+    const scores = rankRecommendations(collection, { ...answers, surprise: 0 }, 12, undefined, { seed: 1 }).map(
+      (rec) => rec.matchScore
+    );
+    expect(scores).toHaveLength(12);
+    expect(Math.max(...scores)).toBe(scores[0]);
+    expect(scores.filter((score) => score === scores[0])).toHaveLength(1);
+  });
+
+  it('gives the same picks for the same seed', () => {
+    const a = rankRecommendations(collection, answers, 5, undefined, { seed: 7 });
+    const b = rankRecommendations(collection, answers, 5, undefined, { seed: 7 });
+    expect(a.map((rec) => rec.releaseData.id)).toEqual(b.map((rec) => rec.releaseData.id));
+  });
+
+  it('keeps to the top score at low surprise', () => {
+    const picks = firstPicks(0, 50);
+    expect(picks.filter((id) => id === 1).length).toBeGreaterThanOrEqual(45);
+  });
+
+  it('spreads picks at high surprise', () => {
+    const picks = firstPicks(1, 50);
+    expect(picks.filter((id) => id === 1).length).toBeLessThan(25);
+    expect(new Set(picks).size).toBeGreaterThanOrEqual(6);
+  });
+
+  it('keeps the drawn pick first and ranks the alternatives after it', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const ranked = rankRecommendations(collection, answers, 6, undefined, { seed });
+      const firstDraw = rankRecommendations(collection, answers, 1, undefined, { seed })[0];
+      const alternatives = ranked.slice(1).map((rec) => rec.matchScore);
+      expect(ranked[0].releaseData.id).toBe(firstDraw.releaseData.id);
+      expect(alternatives).toEqual([...alternatives].sort((a, b) => b - a));
+    }
+  });
+
+  it('returns nothing for an empty collection or count', () => {
+    expect(rankRecommendations(collection, answers, 0)).toEqual([]);
+    expect(rankRecommendations([], answers, 3)).toEqual([]);
+  });
+});
+
+describe('drawRecommendations', () => {
+  // Thirty records from the decade and rated 5, then one far outside it and unrated
+  const large = [
+    ...Array.from({ length: 30 }, (_, i) => record(i + 1, 1985, 5)),
+    record(99, 1950, 0),
+  ];
+
+  function timesDrawn(surprise: number): number {
+    return Array.from({ length: 100 }, (_, seed) =>
+      drawRecommendations(large, { ...answers, surprise }, 10, { seed }).map((item) => item.basic_information.id)
+    ).filter((ids) => ids.includes(99)).length;
+  }
+
+  it('can still draw a record from the bottom of a large collection at high surprise', () => {
+    expect(timesDrawn(1)).toBeGreaterThan(0);
+  });
+
+  it('leaves that record out at low surprise', () => {
+    expect(timesDrawn(0)).toBe(0);
+  });
+
+  it('draws the same records rankRecommendations would pick without details', () => {
+    const drawn = drawRecommendations(collection, answers, 5, { seed: 3 });
+    const ranked = rankRecommendations(collection, answers, 5, undefined, { seed: 3 });
+    expect(drawn.map((item) => item.basic_information.id).sort()).toEqual(
+      ranked.map((rec) => rec.releaseData.id).sort()
+    );
+  });
+});
+
+describe('rescoreRecommendations', () => {
+  it('keeps the first draw as the pick and ranks the rest', () => {
+    const picks = [record(12, 1968, 0), record(3, 1976, 0), record(1, 1985, 5), record(7, 1972, 0)];
+    const rescored = rescoreRecommendations(picks, answers);
+    expect(rescored.map((rec) => rec.releaseData.id)).toEqual([12, 1, 3, 7]);
+  });
+});
+
+describe('applyRating', () => {
+  const [unrated] = rescoreRecommendations([record(2, 1978, 0)], answers);
+
+  it('moves the score and breakdown with the new rating', () => {
+    const rated = applyRating(unrated, 4);
+    const factor = rated.breakdown.find((entry) => entry.criterion === 'rating');
+    expect(rated.collectionItem.rating).toBe(4);
+    expect(factor).toMatchObject({ points: 8, evidence: 'You rated it 4/5' });
+    expect(rated.matchScore).toBe(unrated.matchScore + 8);
+    expect(rated.reasons).toContain('you have rated this release');
+  });
+
+  it('matches scoring the rated record from scratch', () => {
+    const [fresh] = rescoreRecommendations([record(2, 1978, 4)], answers);
+    const rated = applyRating(unrated, 4);
+    expect(rated.matchScore).toBe(fresh.matchScore);
+    expect(rated.breakdown).toEqual(fresh.breakdown);
+  });
+
+  it('drops the rating points and reason when the rating is cleared', () => {
+    const cleared = applyRating(applyRating(unrated, 5), 0);
+    expect(cleared.matchScore).toBe(unrated.matchScore);
+    expect(cleared.reasons).toEqual(unrated.reasons);
+  });
+});
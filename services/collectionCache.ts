@@ -0,0 +1,225 @@
+/**
+ * Collection Cache Service
+ *
+ * Persists each linked Discogs account's collection locally so screens can
+ * render from disk and only pull newly added releases from the API.
+ * Entries are keyed by account storage ID (see accountStorageId in discogsAuth).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CollectionItem, DiscogsCollectionField, DiscogsCollectionFolder } from '@/types';
+
+// Collection payloads are too large for SecureStore, so they live in AsyncStorage
+const COLLECTION_CACHE_KEY_PREFIX = 'discogs_collection_cache_';
+// Pages of an unfinished full download, kept so an interrupted download can resume
+const DOWNLOAD_PROGRESS_KEY_PREFIX = 'discogs_collection_download_';
+// Folder list (names and counts), kept so folder pickers work offline
+const FOLDERS_CACHE_KEY_PREFIX = 'discogs_collection_folders_';
+// Custom field definitions, needed to make sense of each item's notes
+const FIELDS_CACHE_KEY_PREFIX = 'discogs_collection_fields_';
+
+export interface CachedCollection {
+  username: string;
+  items: CollectionItem[];
+  lastSyncedAt: string;
+}
+
+export interface DownloadProgress {
+  username: string;
+  totalItems: number | null;
+  totalPages: number;
+  completedPages: number[];
+}
+
+/**
+ * Get the cached collection for an account
+ */
+export async function getCachedCollection(accountId: string): Promise<CachedCollection | null> {
+  try {
+    const cacheJson = await AsyncStorage.getItem(`${COLLECTION_CACHE_KEY_PREFIX}${accountId}`);
+    return cacheJson ? JSON.parse(cacheJson) : null;
+  } catch (error) {
+    console.error('Error reading collection cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a collection to the cache, stamping it with the current sync time
+ */
+export async function saveCachedCollection(
+  accountId: string,
+  username: string,
+  items: CollectionItem[]
+): Promise<CachedCollection> {
+  const cache: CachedCollection = {
+    username,
+    items,
+    lastSyncedAt: new Date().toISOString(),
+  };
+
+  try {
+    await AsyncStorage.setItem(`${COLLECTION_CACHE_KEY_PREFIX}${accountId}`, JSON.stringify(cache));
+  } catch (error) {
+    console.error('Error saving collection cache:', error);
+  }
+
+  return cache;
+}
+
+/**
+ * Apply changes to one cached collection instance, e.g. after the user edits it
+ * Leaves the sync time alone since the rest of the cache is no fresher
+ */
+export async function updateCachedItem(
+  accountId: string,
+  instanceId: number,
+  changes: Partial<CollectionItem>
+): Promise<void> {
+  const cache = await getCachedCollection(accountId);
+  if (!cache) return;
+
+  const updated: CachedCollection = {
+    ...cache,
+    items: cache.items.map((item) => (item.instance_id === instanceId ? { ...item, ...changes } : item)),
+  };
+  try {
+    await AsyncStorage.setItem(`${COLLECTION_CACHE_KEY_PREFIX}${accountId}`, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error updating collection cache:', error);
+  }
+}
+
+/**
+ * Remove the cached collection, folder list and field definitions for an account
+ */
+export async function clearCachedCollection(accountId: string): Promise<void> {
+  try {
+    await AsyncStorage.multiRemove([
+      `${COLLECTION_CACHE_KEY_PREFIX}${accountId}`,
+      `${FOLDERS_CACHE_KEY_PREFIX}${accountId}`,
+      `${FIELDS_CACHE_KEY_PREFIX}${accountId}`,
+    ]);
+  } catch (error) {
+    console.error('Error clearing collection cache:', error);
+  }
+}
+
+/**
+ * Get the cached folder list for an account
+ */
+export async function getCachedFolders(accountId: string): Promise<DiscogsCollectionFolder[] | null> {
+  try {
+    const foldersJson = await AsyncStorage.getItem(`${FOLDERS_CACHE_KEY_PREFIX}${accountId}`);
+    return foldersJson ? JSON.parse(foldersJson) : null;
+  } catch (error) {
+    console.error('Error reading folder cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Save an account's folder list
+ */
+export async function saveCachedFolders(accountId: string, folders: DiscogsCollectionFolder[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(`${FOLDERS_CACHE_KEY_PREFIX}${accountId}`, JSON.stringify(folders));
+  } catch (error) {
+    console.error('Error saving folder cache:', error);
+  }
+}
+
+/**
+ * Get the cached custom field definitions for an account
+ */
+export async function getCachedFields(accountId: string): Promise<DiscogsCollectionField[] | null> {
+  try {
+    const fieldsJson = await AsyncStorage.getItem(`${FIELDS_CACHE_KEY_PREFIX}${accountId}`);
+    return fieldsJson ? JSON.parse(fieldsJson) : null;
+  } catch (error) {
+    console.error('Error reading field cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Save an account's custom field definitions
+ */
+export async function saveCachedFields(accountId: string, fields: DiscogsCollectionField[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(`${FIELDS_CACHE_KEY_PREFIX}${accountId}`, JSON.stringify(fields));
+  } catch (error) {
+    console.error('Error saving field cache:', error);
+  }
+}
+
+function downloadPageKey(accountId: string, page: number): string {
+  return `${DOWNLOAD_PROGRESS_KEY_PREFIX}${accountId}_page_${page}`;
+}
+
+/**
+ * Get the progress of an interrupted full download, along with the pages it completed
+ */
+export async function getDownloadProgress(
+  accountId: string
+): Promise<{ progress: DownloadProgress; pages: Map<number, CollectionItem[]> } | null> {
+  try {
+    const progressJson = await AsyncStorage.getItem(`${DOWNLOAD_PROGRESS_KEY_PREFIX}${accountId}`);
+    if (!progressJson) return null;
+
+    const progress: DownloadProgress = JSON.parse(progressJson);
+    const entries = await AsyncStorage.multiGet(
+      progress.completedPages.map((page) => downloadPageKey(accountId, page))
+    );
+
+    const pages = new Map<number, CollectionItem[]>();
+    entries.forEach(([, pageJson], index) => {
+      if (pageJson) {
+        pages.set(progress.completedPages[index], JSON.parse(pageJson));
+      }
+    });
+
+    return {
+      progress: { ...progress, completedPages: Array.from(pages.keys()) },
+      pages,
+    };
+  } catch (error) {
+    console.error('Error reading collection download progress:', error);
+    return null;
+  }
+}
+
+/**
+ * Record a completed page of a full download
+ */
+export async function saveDownloadPage(
+  accountId: string,
+  progress: DownloadProgress,
+  page: number,
+  items: CollectionItem[]
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(downloadPageKey(accountId, page), JSON.stringify(items));
+    await AsyncStorage.setItem(`${DOWNLOAD_PROGRESS_KEY_PREFIX}${accountId}`, JSON.stringify(progress));
+  } catch (error) {
+    console.error(`Error saving collection download page ${page}:`, error);
+  }
+}
+
+/**
+ * Remove any saved download progress for an account
+ */
+export async function clearDownloadProgress(accountId: string): Promise<void> {
+  try {
+    const progressKey = `${DOWNLOAD_PROGRESS_KEY_PREFIX}${accountId}`;
+    const keys = await AsyncStorage.getAllKeys();
+    const progressKeys = keys.filter(
+      (key) => key === progressKey || key.startsWith(`${progressKey}_page_`)
+    );
+    if (progressKeys.length > 0) {
+      await AsyncStorage.multiRemove(progressKeys);
+    }
+  } catch (error) {
+    console.error('Error clearing collection download progress:', error);
+  }
+}
@@ -2,116 +2,620 @@
  * Collection Fetcher Service
  * 
  * Fetches user's Discogs collection and release metadata
+ * Collections are fetched per linked Discogs account (see DiscogsAccount)
+ * The whole collection is fetched through folder 0 ("All"); each item keeps
+ * its real folder_id so folders can be picked out locally
  */
 
-import { makeAuthenticatedRequest, getStoredTokens } from './discogsAuth';
-import { CollectionItem, ReleaseData } from '@/types';
+import {
+  getStoredTokens,
+  accountStorageId,
+  isAccountExpired,
+  DiscogsAuthExpiredError,
+} from './discogsAuth';
+import {
+  getCachedCollection,
+  saveCachedCollection,
+  getDownloadProgress,
+  saveDownloadPage,
+  clearDownloadProgress,
+  getCachedFolders,
+  saveCachedFolders,
+  getCachedFields,
+  saveCachedFields,
+  updateCachedItem,
+  DownloadProgress,
+} from './collectionCache';
+import { DEFAULT_COLLECTION_FIELDS, withCustomFields } from './collectionFields';
+import { getCachedRelease, getCachedReleases, saveCachedRelease } from './releaseCache';
+import {
+  getCollectionFields,
+  getCollectionFolders,
+  getCollectionReleases,
+  getRelease,
+  setCollectionItemRating,
+} from './discogsApi';
+import {
+  CollectionFolderRef,
+  CollectionItem,
+  DiscogsAccount,
+  DiscogsCollectionFolder,
+  DiscogsCollectionReleasesPage,
+  ReleaseData,
+} from '@/types';
+
+const PER_PAGE = 100; // Max per page
+const PAGE_RETRIES = 2;
+// Folder 0 is Discogs' read-only "All" view of every folder
+export const ALL_FOLDER_ID = 0;
+
+export interface CollectionFetchResult {
+  items: CollectionItem[];
+  // False when some pages could not be fetched; items then holds only what was loaded
+  complete: boolean;
+  totalPages: number;
+  failedPages: number[];
+}
+
+export interface CollectionFetchOptions {
+  onPageProgress?: (completedPages: number, totalPages: number) => void;
+}
+
+// A folder as offered in folder pickers
+export interface CollectionFolderOption extends CollectionFolderRef {
+  name: string;
+  count: number;
+}
+
+// Syncs currently running, keyed by account, so overlapping callers share one request chain
+const inFlightSyncs = new Map<string, Promise<CollectionFetchResult>>();
 
 /**
- * Fetch all releases from user's collection
- * Note: Discogs API paginates results, so we need to fetch all pages
+ * Throw unless an account has usable tokens
  */
-export async function fetchUserCollection(userId?: string): Promise<CollectionItem[]> {
-  const tokens = await getStoredTokens(userId);
-  if (!tokens) {
-    throw new Error('Not authenticated with Discogs');
+async function assertAuthenticated(account: DiscogsAccount): Promise<void> {
+  if (await getStoredTokens(account)) return;
+  if (await isAccountExpired(account)) {
+    throw new DiscogsAuthExpiredError(account);
   }
+  throw new Error(`Not authenticated with Discogs as ${account.username}`);
+}
 
-  console.log(`Fetching collection for user: ${tokens.username}`);
+/**
+ * Tag collection items with the account they came from
+ */
+function tagItems(items: CollectionItem[], account: DiscogsAccount): CollectionItem[] {
+  return items.map((item) => (item.account === account.username ? item : { ...item, account: account.username }));
+}
 
-  const allItems: CollectionItem[] = [];
-  let page = 1;
-  let hasMore = true;
+/**
+ * Refresh an account's custom field definitions
+ * Failures only cost the field names, so they are logged rather than thrown
+ */
+async function refreshCollectionFields(account: DiscogsAccount): Promise<void> {
+  try {
+    await saveCachedFields(accountStorageId(account), await getCollectionFields(account.username, account));
+  } catch (error) {
+    if (error instanceof DiscogsAuthExpiredError) {
+      throw error;
+    }
+    console.warn('Could not fetch collection fields:', error);
+  }
+}
 
-  while (hasMore) {
+/**
+ * Map items' notes onto named custom fields using the account's cached field definitions
+ */
+async function applyCustomFields(account: DiscogsAccount, items: CollectionItem[]): Promise<CollectionItem[]> {
+  const fields = (await getCachedFields(accountStorageId(account))) ?? DEFAULT_COLLECTION_FIELDS;
+  return withCustomFields(items, fields);
+}
+
+/**
+ * Fetch one page of folder 0, retrying failed attempts
+ * (HTTP 429 is already retried by the rate limiter)
+ */
+async function fetchCollectionPage(account: DiscogsAccount, page: number): Promise<DiscogsCollectionReleasesPage> {
+  let lastError: any;
+  for (let attempt = 0; attempt <= PAGE_RETRIES; attempt++) {
     try {
-      console.log(`Fetching collection page ${page}...`);
-      // Use correct endpoint structure: /users/{username}/collection/folders/{folder_id}/releases
-      const response = await makeAuthenticatedRequest(
-        'GET',
-        `/users/${tokens.username}/collection/folders/0/releases`,
+      return await getCollectionReleases(
+        account.username,
+        ALL_FOLDER_ID,
         {
           page,
-          per_page: 100, // Max per page
+          per_page: PER_PAGE,
+          // Oldest first keeps earlier pages stable when records are added mid-download
+          sort: 'added',
+          sort_order: 'asc',
         },
-        userId
+        account
       );
+    } catch (error: any) {
+      // Retrying won't bring revoked tokens back
+      if (error instanceof DiscogsAuthExpiredError) {
+        throw error;
+      }
+      lastError = error;
+      console.warn(`Collection page ${page} failed (attempt ${attempt + 1}):`, error.message);
+    }
+  }
+  throw lastError;
+}
 
-      console.log(`Page ${page} response:`, {
-        hasReleases: !!response.releases,
-        releasesCount: response.releases?.length || 0,
-        pagination: response.pagination,
-        responseKeys: Object.keys(response),
-      });
-
-      // Check if response has releases array
-      if (response.releases && Array.isArray(response.releases)) {
-        if (response.releases.length > 0) {
-          allItems.push(...response.releases);
-          console.log(`Added ${response.releases.length} items. Total: ${allItems.length}`);
-          page++;
-
-          // Check if there are more pages
-          if (response.pagination) {
-            const totalPages = response.pagination.pages || 1;
-            console.log(`Total pages: ${totalPages}, Current page: ${page}`);
-            hasMore = page <= totalPages;
-          } else {
-            // If no pagination info, assume no more pages if we got less than per_page
-            hasMore = response.releases.length === 100;
-          }
-        } else {
-          console.log('No releases in this page');
-          hasMore = false;
-        }
-      } else {
-        // Response might be structured differently
-        console.warn('Unexpected response structure:', response);
-        // Try to find releases in different possible locations
-        if (response.items && Array.isArray(response.items)) {
-          allItems.push(...response.items);
-          hasMore = false;
-        } else {
-          console.log('No releases found in response');
-          hasMore = false;
+/**
+ * Fetch all releases from user's collection
+ * Page 1 tells us how many pages there are; the rest are requested together
+ * and paced by the rate limiter. Completed pages are saved as they arrive so
+ * an interrupted download resumes where it left off.
+ */
+export async function fetchUserCollection(
+  account: DiscogsAccount,
+  options: CollectionFetchOptions = {}
+): Promise<CollectionFetchResult> {
+  await assertAuthenticated(account);
+
+  console.log(`Fetching collection for user: ${account.username}`);
+  const accountId = accountStorageId(account);
+
+  const firstPage = await fetchCollectionPage(account, 1);
+  const totalPages = firstPage.pagination.pages || 1;
+  const totalItems: number | null = firstPage.pagination.items;
+
+  // Only resume if the collection still has the same shape as when the download started
+  let pages = new Map<number, CollectionItem[]>();
+  const saved = await getDownloadProgress(accountId);
+  if (
+    saved &&
+    saved.progress.username === account.username &&
+    saved.progress.totalPages === totalPages &&
+    saved.progress.totalItems === totalItems
+  ) {
+    pages = saved.pages;
+    console.log(`Resuming collection download: ${pages.size}/${totalPages} pages already fetched`);
+  } else if (saved) {
+    await clearDownloadProgress(accountId);
+  }
+
+  const progress: DownloadProgress = {
+    username: account.username,
+    totalItems,
+    totalPages,
+    completedPages: [],
+  };
+  const completePage = async (page: number, items: CollectionItem[]) => {
+    pages.set(page, items);
+    progress.completedPages = Array.from(pages.keys());
+    await saveDownloadPage(accountId, progress, page, items);
+    options.onPageProgress?.(pages.size, totalPages);
+  };
+
+  await completePage(1, tagItems(firstPage.releases, account));
+
+  const remainingPages: number[] = [];
+  for (let page = 2; page <= totalPages; page++) {
+    if (!pages.has(page)) remainingPages.push(page);
+  }
+
+  const failedPages: number[] = [];
+  await Promise.all(
+    remainingPages.map(async (page) => {
+      try {
+        const response = await fetchCollectionPage(account, page);
+        await completePage(page, tagItems(response.releases, account));
+      } catch (error: any) {
+        if (error instanceof DiscogsAuthExpiredError) {
+          throw error;
         }
+        console.error(`Error fetching collection page ${page}:`, error);
+        failedPages.push(page);
       }
-    } catch (error: any) {
-      console.error(`Error fetching collection page ${page}:`, error);
-      console.error('Error details:', {
-        message: error.message,
-        response: error.response?.data,
-        status: error.response?.status,
-      });
-      // Don't stop on first error, but log it
-      hasMore = false;
+    })
+  );
+
+  // Newest first, matching the order incremental syncs prepend in
+  const items = Array.from(pages.keys())
+    .sort((a, b) => a - b)
+    .flatMap((page) => pages.get(page) || [])
+    .reverse();
+  const complete = failedPages.length === 0;
+
+  if (complete) {
+    await clearDownloadProgress(accountId);
+  }
+
+  console.log(
+    `Collection fetch ${complete ? 'complete' : 'partial'}. Total items: ${items.length}` +
+      (complete ? '' : `, failed pages: ${failedPages.sort((a, b) => a - b).join(', ')}`)
+  );
+  return { items: await applyCustomFields(account, items), complete, totalPages, failedPages };
+}
+
+/**
+ * Fetch releases added since the last sync
+ * Walks pages newest-first and stops at the first instance we already have
+ */
+async function fetchNewCollectionItems(
+  account: DiscogsAccount,
+  knownInstanceIds: Set<number>,
+  lastDateAdded: string | null
+): Promise<{ items: CollectionItem[]; total: number | null }> {
+  const newItems: CollectionItem[] = [];
+  const lastAddedTime = lastDateAdded ? new Date(lastDateAdded).getTime() : 0;
+  let total: number | null = null;
+  let page = 1;
+  let totalPages = 1;
+
+  while (page <= totalPages) {
+    console.log(`Fetching new collection items, page ${page}...`);
+    const response = await getCollectionReleases(
+      account.username,
+      ALL_FOLDER_ID,
+      {
+        page,
+        per_page: PER_PAGE,
+        sort: 'added',
+        sort_order: 'desc',
+      },
+      account
+    );
+
+    const releases = tagItems(response.releases, account);
+    totalPages = response.pagination.pages || 1;
+    total = response.pagination.items;
+
+    for (const item of releases) {
+      const addedTime = item.date_added ? new Date(item.date_added).getTime() : 0;
+      if (knownInstanceIds.has(item.instance_id) || addedTime < lastAddedTime) {
+        return { items: newItems, total };
+      }
+      newItems.push(item);
+    }
+
+    if (releases.length === 0) break;
+    page++;
+  }
+
+  return { items: newItems, total };
+}
+
+/**
+ * Fetch an account's folders, minus folder 0 ("All"), and cache them
+ */
+async function fetchAndCacheFolders(account: DiscogsAccount): Promise<DiscogsCollectionFolder[]> {
+  const folders = (await getCollectionFolders(account.username, account)).filter(
+    (folder) => folder.id !== ALL_FOLDER_ID
+  );
+  await saveCachedFolders(accountStorageId(account), folders);
+  return folders;
+}
+
+/**
+ * Fetch an account's folders from Discogs, falling back to the cached list when offline
+ */
+export async function fetchCollectionFolders(account: DiscogsAccount): Promise<DiscogsCollectionFolder[]> {
+  try {
+    return await fetchAndCacheFolders(account);
+  } catch (error) {
+    if (error instanceof DiscogsAuthExpiredError) {
+      throw error;
+    }
+    const cached = await getCachedFolders(accountStorageId(account));
+    if (cached) {
+      console.warn('Using cached folders after fetch failed:', error);
+      return cached;
+    }
+    throw error;
+  }
+}
+
+/**
+ * List the folders of several accounts, cache-first
+ */
+export async function loadCollectionFolders(accounts: DiscogsAccount[]): Promise<CollectionFolderOption[]> {
+  const perAccount = await Promise.all(
+    accounts.map(async (account) => {
+      const folders =
+        (await getCachedFolders(accountStorageId(account))) ?? (await fetchCollectionFolders(account));
+      return folders.map((folder) => ({
+        account: account.username,
+        folderId: folder.id,
+        name: folder.name,
+        count: folder.count,
+      }));
+    })
+  );
+  return perAccount.flat();
+}
+
+/**
+ * Check whether Discogs' per-folder counts disagree with a set of items
+ * Refreshes the cached folder list as a side effect
+ */
+async function foldersChanged(account: DiscogsAccount, items: CollectionItem[]): Promise<boolean> {
+  let folders: DiscogsCollectionFolder[];
+  try {
+    folders = await fetchAndCacheFolders(account);
+  } catch (error) {
+    if (error instanceof DiscogsAuthExpiredError) {
+      throw error;
     }
+    console.warn('Could not fetch folders to check for moved records:', error);
+    return false;
   }
 
-  console.log(`Collection fetch complete. Total items: ${allItems.length}`);
-  return allItems;
+  const counts = new Map<number, number>();
+  items.forEach((item) => counts.set(item.folder_id, (counts.get(item.folder_id) ?? 0) + 1));
+  return folders.some((folder) => (counts.get(folder.id) ?? 0) !== folder.count);
+}
+
+/**
+ * Keep only items filed in one of the given folders (all items when none are given)
+ */
+export function filterByFolders(items: CollectionItem[], folders: CollectionFolderRef[] = []): CollectionItem[] {
+  if (folders.length === 0) return items;
+  return items.filter((item) =>
+    folders.some((folder) => folder.account === item.account && folder.folderId === item.folder_id)
+  );
+}
+
+/**
+ * Do a full fetch and cache the result once every page has arrived
+ */
+async function fetchAndCacheCollection(
+  account: DiscogsAccount,
+  options: CollectionFetchOptions
+): Promise<CollectionFetchResult> {
+  const result = await fetchUserCollection(account, options);
+  if (result.complete) {
+    await saveCachedCollection(accountStorageId(account), account.username, result.items);
+  }
+  return result;
 }
 
 /**
- * Fetch detailed release information
+ * Bring an account's cached collection up to date
+ * Only pulls releases newer than the cache; falls back to a full fetch when
+ * there is no cache or the counts no longer line up (e.g. records were removed)
  */
-export async function fetchReleaseDetails(releaseId: number, userId?: string): Promise<ReleaseData> {
+export async function syncUserCollection(
+  account: DiscogsAccount,
+  options: CollectionFetchOptions = {}
+): Promise<CollectionFetchResult> {
+  const accountId = accountStorageId(account);
+  const inFlight = inFlightSyncs.get(accountId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const sync = (async (): Promise<CollectionFetchResult> => {
+    await assertAuthenticated(account);
+    await refreshCollectionFields(account);
+
+    const cache = await getCachedCollection(accountId);
+    if (!cache || cache.username !== account.username) {
+      console.log('No usable collection cache, doing full fetch');
+      return fetchAndCacheCollection(account, options);
+    }
+
+    const knownInstanceIds = new Set(cache.items.map((item) => item.instance_id));
+    const lastDateAdded = cache.items.reduce<string | null>(
+      (latest, item) =>
+        item.date_added && (!latest || new Date(item.date_added) > new Date(latest))
+          ? item.date_added
+          : latest,
+      null
+    );
+
+    const { items: newItems, total } = await fetchNewCollectionItems(
+      account,
+      knownInstanceIds,
+      lastDateAdded
+    );
+    const merged = [...newItems, ...tagItems(cache.items, account)];
+    console.log(`Incremental sync found ${newItems.length} new items`);
+
+    if (total !== null && total !== merged.length) {
+      console.log(`Cached count (${merged.length}) differs from Discogs (${total}), doing full fetch`);
+      return fetchAndCacheCollection(account, options);
+    }
+
+    // Moving a record between folders doesn't change the total, so compare per folder
+    if (await foldersChanged(account, merged)) {
+      console.log('Folder counts differ from Discogs, doing full fetch');
+      return fetchAndCacheCollection(account, options);
+    }
+
+    await saveCachedCollection(accountId, account.username, merged);
+    const totalPages = Math.max(1, Math.ceil(merged.length / PER_PAGE));
+    options.onPageProgress?.(totalPages, totalPages);
+    return { items: await applyCustomFields(account, merged), complete: true, totalPages, failedPages: [] };
+  })();
+
+  inFlightSyncs.set(accountId, sync);
   try {
-    const response = await makeAuthenticatedRequest('GET', `/releases/${releaseId}`, {}, userId);
-    
-    return {
-      id: response.id,
-      title: response.title,
-      artists: response.artists || [],
-      year: response.year || 0,
-      genres: response.genres || [],
-      styles: response.styles || [],
-      tracklist: response.tracklist || [],
-      images: response.images || [],
-      formats: response.formats || [],
-      labels: response.labels || [],
-      notes: response.notes,
-    };
+    return await sync;
+  } finally {
+    inFlightSyncs.delete(accountId);
+  }
+}
+
+/**
+ * Load an account's collection cache-first
+ * Returns cached items immediately and syncs in the background, handing the
+ * fresh collection to onSynced. Without a cache it waits for the first sync.
+ */
+export async function loadCollection(
+  account: DiscogsAccount,
+  onSynced?: (result: CollectionFetchResult) => void,
+  options: CollectionFetchOptions = {}
+): Promise<CollectionFetchResult> {
+  await assertAuthenticated(account);
+
+  const cache = await getCachedCollection(accountStorageId(account));
+  if (!cache || cache.username !== account.username) {
+    return syncUserCollection(account, options);
+  }
+
+  console.log(`Using cached collection (${cache.items.length} items, synced ${cache.lastSyncedAt})`);
+  syncUserCollection(account)
+    .then((result) => onSynced?.(result))
+    .catch((error) => console.error('Background collection sync failed:', error));
+
+  const totalPages = Math.max(1, Math.ceil(cache.items.length / PER_PAGE));
+  options.onPageProgress?.(totalPages, totalPages);
+  const items = await applyCustomFields(account, tagItems(cache.items, account));
+  return { items, complete: true, totalPages, failedPages: [] };
+}
+
+/**
+ * Combine per-account results into one collection
+ */
+function mergeCollectionResults(results: CollectionFetchResult[]): CollectionFetchResult {
+  return {
+    items: results.flatMap((result) => result.items),
+    complete: results.every((result) => result.complete),
+    totalPages: results.reduce((sum, result) => sum + result.totalPages, 0),
+    failedPages: results.flatMap((result) => result.failedPages),
+  };
+}
+
+/**
+ * Load the union of several accounts' collections, cache-first
+ * Page progress is summed across accounts. onSynced receives the merged
+ * collection each time one account's background sync finishes.
+ */
+export async function loadCollections(
+  accounts: DiscogsAccount[],
+  onSynced?: (result: CollectionFetchResult) => void,
+  options: CollectionFetchOptions = {}
+): Promise<CollectionFetchResult> {
+  if (accounts.length === 1) {
+    return loadCollection(accounts[0], onSynced, options);
+  }
+
+  const pageProgress = new Map<string, [number, number]>();
+  const latest = new Map<string, CollectionFetchResult>();
+  const emitSynced = () => {
+    if (latest.size === accounts.length) {
+      onSynced?.(mergeCollectionResults(accounts.map((account) => latest.get(account.username)!)));
+    }
+  };
+
+  await Promise.all(
+    accounts.map(async (account) => {
+      const result = await loadCollection(
+        account,
+        (synced) => {
+          latest.set(account.username, synced);
+          emitSynced();
+        },
+        {
+          onPageProgress: (completedPages, totalPages) => {
+            pageProgress.set(account.username, [completedPages, totalPages]);
+            let completed = 0;
+            let total = 0;
+            pageProgress.forEach(([done, pages]) => {
+              completed += done;
+              total += pages;
+            });
+            options.onPageProgress?.(completed, total);
+          },
+        }
+      );
+      // A background sync that already finished has the fresher data
+      if (!latest.has(account.username)) {
+        latest.set(account.username, result);
+      }
+    })
+  );
+
+  return mergeCollectionResults(accounts.map((account) => latest.get(account.username)!));
+}
+
+/**
+ * Sync several accounts' collections and return their union
+ */
+export async function syncCollections(
+  accounts: DiscogsAccount[],
+  options: CollectionFetchOptions = {}
+): Promise<CollectionFetchResult> {
+  const results = await Promise.all(accounts.map((account) => syncUserCollection(account, options)));
+  return mergeCollectionResults(results);
+}
+
+/**
+ * Rate a collection item on Discogs and update the cached copy to match
+ */
+export async function rateCollectionItem(
+  item: CollectionItem,
+  rating: number,
+  account: DiscogsAccount
+): Promise<void> {
+  const clamped = Math.max(0, Math.min(5, Math.round(rating)));
+  await setCollectionItemRating(
+    account.username,
+    item.folder_id,
+    item.id,
+    item.instance_id,
+    clamped,
+    account
+  );
+  await updateCachedItem(accountStorageId(account), item.instance_id, { rating: clamped });
+  console.log(`Rated ${item.basic_information.title} ${clamped}/5`);
+}
+
+export interface ReleaseFetchOptions {
+  // How long a cached release stays valid; defaults to DEFAULT_RELEASE_CACHE_TTL_MS
+  ttlMs?: number;
+}
+
+export interface ReleaseFetchStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Fetch release details from the API and cache them
+ */
+async function fetchReleaseFromApi(releaseId: number, account?: DiscogsAccount): Promise<ReleaseData> {
+  const release = await getRelease(releaseId, account);
+
+  // Only the fields the app uses are cached
+  const releaseData: ReleaseData = {
+    id: release.id,
+    title: release.title,
+    artists: release.artists,
+    year: release.year,
+    genres: release.genres,
+    styles: release.styles,
+    tracklist: release.tracklist,
+    images: release.images,
+    formats: release.formats,
+    labels: release.labels,
+    notes: release.notes,
+    country: release.country,
+  };
+
+  await saveCachedRelease(releaseData);
+  return releaseData;
+}
+
+/**
+ * Fetch detailed release information, using the release cache when possible
+ */
+export async function fetchReleaseDetails(
+  releaseId: number,
+  account?: DiscogsAccount,
+  options: ReleaseFetchOptions = {}
+): Promise<ReleaseData> {
+  const cached = await getCachedRelease(releaseId, options.ttlMs);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    return await fetchReleaseFromApi(releaseId, account);
   } catch (error) {
     console.error(`Error fetching release ${releaseId}:`, error);
     throw error;
@@ -119,40 +623,43 @@ export async function fetchReleaseDetails(releaseId: number, userId?: string): P
 }
 
 /**
- * Fetch release details for multiple releases (with rate limiting)
+ * Fetch release details for multiple releases
+ * Cached releases are reported through onProgress up front, so only misses
+ * cost a request. Misses are queued together and the shared rate limiter
+ * decides how fast they go out.
  */
 export async function fetchMultipleReleaseDetails(
   releaseIds: number[],
-  onProgress?: (current: number, total: number) => void,
-  userId?: string
+  onProgress?: (current: number, total: number, stats: ReleaseFetchStats) => void,
+  account?: DiscogsAccount,
+  options: ReleaseFetchOptions = {}
 ): Promise<Map<number, ReleaseData>> {
-  const releaseMap = new Map<number, ReleaseData>();
-  
-  // Discogs rate limit: 60 requests per minute
-  // Add small delay between requests to be safe
-  const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-  for (let i = 0; i < releaseIds.length; i++) {
-    const releaseId = releaseIds[i];
-    
-    try {
-      const releaseData = await fetchReleaseDetails(releaseId, userId);
-      releaseMap.set(releaseId, releaseData);
-      
-      if (onProgress) {
-        onProgress(i + 1, releaseIds.length);
+  const releaseMap = await getCachedReleases(releaseIds, options.ttlMs);
+  const missingIds = releaseIds.filter((id) => !releaseMap.has(id));
+  const stats: ReleaseFetchStats = { hits: releaseMap.size, misses: missingIds.length };
+  let completed = releaseMap.size;
+
+  console.log(`Release cache: ${stats.hits} hits, ${stats.misses} misses`);
+  if (onProgress) {
+    onProgress(completed, releaseIds.length, stats);
+  }
+
+  await Promise.all(
+    missingIds.map(async (releaseId) => {
+      try {
+        const releaseData = await fetchReleaseFromApi(releaseId, account);
+        releaseMap.set(releaseId, releaseData);
+      } catch (error) {
+        console.error(`Failed to fetch release ${releaseId}:`, error);
+        // Continue with other releases even if one fails
       }
-      
-      // Rate limiting: wait 1.1 seconds between requests (55 requests per minute)
-      if (i < releaseIds.length - 1) {
-        await delay(1100);
+
+      completed++;
+      if (onProgress) {
+        onProgress(completed, releaseIds.length, stats);
       }
-    } catch (error) {
-      console.error(`Failed to fetch release ${releaseId}:`, error);
-      // Continue with other releases even if one fails
-    }
-  }
+    })
+  );
 
   return releaseMap;
 }
-
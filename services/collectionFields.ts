@@ -0,0 +1,90 @@
+/**
+ * Collection Custom Fields
+ *
+ * Discogs returns each collection instance's custom field values as a bare
+ * list of { field_id, value }. This maps them onto named fields using the
+ * account's field definitions and answers questions the recommender asks,
+ * like "is this record in poor shape?" or "did the owner say not to play it?".
+ */
+
+import { CollectionCustomFields, CollectionItem, DiscogsCollectionField, DiscogsCollectionNote } from '@/types';
+
+// Every Discogs account starts with these three fields; used until the real list has been fetched
+export const DEFAULT_COLLECTION_FIELDS: DiscogsCollectionField[] = [
+  { id: 1, name: 'Media Condition', type: 'dropdown', position: 1, public: false },
+  { id: 2, name: 'Sleeve Condition', type: 'dropdown', position: 2, public: false },
+  { id: 3, name: 'Notes', type: 'textarea', position: 3, public: false },
+];
+
+// Media grades too worn to recommend when "skip poor condition" is on
+const POOR_GRADES = ['G', 'F', 'P'];
+
+// Free-text that means "don't play this one", e.g. "Do not spin", "don't play", "no spin"
+const DO_NOT_SPIN_PATTERN = /\b(do\s*n[o']?t|never|no)\s+(spin|play)\b/i;
+
+/**
+ * Map an instance's notes onto named custom fields
+ */
+export function mapCustomFields(
+  notes: DiscogsCollectionNote[] = [],
+  fields: DiscogsCollectionField[] = DEFAULT_COLLECTION_FIELDS
+): CollectionCustomFields {
+  const customFields: CollectionCustomFields = { other: {} };
+  notes.forEach((note) => {
+    const value = note.value.trim();
+    const field = fields.find((candidate) => candidate.id === note.field_id);
+    if (!value || !field) return;
+
+    switch (field.name.trim().toLowerCase()) {
+      case 'media condition':
+        customFields.mediaCondition = value;
+        break;
+      case 'sleeve condition':
+        customFields.sleeveCondition = value;
+        break;
+      case 'notes':
+        customFields.notes = value;
+        break;
+      default:
+        customFields.other[field.name] = value;
+    }
+  });
+  return customFields;
+}
+
+/**
+ * Attach mapped custom fields to collection items
+ */
+export function withCustomFields(
+  items: CollectionItem[],
+  fields: DiscogsCollectionField[] = DEFAULT_COLLECTION_FIELDS
+): CollectionItem[] {
+  return items.map((item) => ({ ...item, custom_fields: mapCustomFields(item.notes, fields) }));
+}
+
+/**
+ * Pull the short grade out of a Discogs condition, e.g. "Very Good Plus (VG+)" -> "VG+"
+ */
+export function conditionGrade(condition: string): string {
+  const match = condition.match(/\(([^)]+)\)\s*$/);
+  return (match ? match[1] : condition).trim().toUpperCase();
+}
+
+/**
+ * Whether the media is graded Good or worse
+ */
+export function isPoorCondition(item: CollectionItem): boolean {
+  const condition = item.custom_fields?.mediaCondition;
+  return !!condition && POOR_GRADES.includes(conditionGrade(condition));
+}
+
+/**
+ * Whether any free-text field asks for the record not to be played
+ */
+export function isMarkedDoNotSpin(item: CollectionItem): boolean {
+  const customFields = item.custom_fields;
+  if (!customFields) return false;
+  return [customFields.notes, ...Object.values(customFields.other)].some(
+    (value) => !!value && DO_NOT_SPIN_PATTERN.test(value)
+  );
+}
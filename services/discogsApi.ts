@@ -0,0 +1,540 @@
+/**
+ * Discogs API Client
+ *
+ * Typed wrappers around makeAuthenticatedRequest for the endpoints the app
+ * uses. Responses are checked at runtime before they reach the rest of the
+ * app: required fields must be present, missing lists become empty arrays.
+ * Failures surface as DiscogsApiError (DiscogsAuthExpiredError passes through
+ * untouched so callers can still offer a reconnect).
+ */
+
+import { makeAuthenticatedRequest, DiscogsAuthExpiredError } from './discogsAuth';
+import { getRateLimitSnapshot, RateLimitSnapshot } from './rateLimiter';
+import {
+  CollectionItem,
+  DiscogsAccount,
+  DiscogsArtist,
+  DiscogsCollectionField,
+  DiscogsCollectionFolder,
+  DiscogsCollectionNote,
+  DiscogsCollectionReleasesPage,
+  DiscogsCollectionReleasesParams,
+  DiscogsIdentity,
+  DiscogsImage,
+  DiscogsLabel,
+  DiscogsMaster,
+  DiscogsPageParams,
+  DiscogsPagination,
+  DiscogsRelease,
+  DiscogsUserProfile,
+  DiscogsWant,
+  DiscogsWantlistPage,
+  ReleaseData,
+} from '@/types';
+
+type JsonObject = Record<string, unknown>;
+
+// Discogs files instances here unless the user picks another folder
+const UNCATEGORIZED_FOLDER_ID = 1;
+
+export class DiscogsApiError extends Error {
+  // HTTP status, or null when no response came back or the response didn't parse
+  status: number | null;
+  endpoint: string;
+  rateLimit: RateLimitSnapshot;
+
+  constructor(message: string, status: number | null, endpoint: string) {
+    super(message);
+    this.name = 'DiscogsApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+    this.rateLimit = getRateLimitSnapshot();
+  }
+}
+
+// Thrown by the parsers; turned into a DiscogsApiError by request()
+class ResponseShapeError extends Error {}
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ResponseShapeError(`${path} is not an object`);
+  }
+  return value as JsonObject;
+}
+
+function expectNumber(obj: JsonObject, key: string, path: string): number {
+  const value = obj[key];
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new ResponseShapeError(`${path}.${key} is not a number`);
+  }
+  return value;
+}
+
+function expectString(obj: JsonObject, key: string, path: string): string {
+  const value = obj[key];
+  if (typeof value !== 'string') {
+    throw new ResponseShapeError(`${path}.${key} is not a string`);
+  }
+  return value;
+}
+
+function optionalNumber(obj: JsonObject, key: string): number | undefined {
+  const value = obj[key];
+  return typeof value === 'number' && !Number.isNaN(value) ? value : undefined;
+}
+
+function optionalString(obj: JsonObject, key: string): string | undefined {
+  const value = obj[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function optionalBoolean(obj: JsonObject, key: string): boolean | undefined {
+  const value = obj[key];
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+/**
+ * Parse a list field, treating a missing list as empty
+ */
+function arrayOf<T>(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  parseItem: (value: unknown, itemPath: string) => T
+): T[] {
+  const value = obj[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new ResponseShapeError(`${path}.${key} is not an array`);
+  }
+  return value.map((item, index) => parseItem(item, `${path}.${key}[${index}]`));
+}
+
+function stringItem(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new ResponseShapeError(`${path} is not a string`);
+  }
+  return value;
+}
+
+function parseArtistCredit(value: unknown, path: string): CollectionItem['basic_information']['artists'][number] {
+  const obj = expectObject(value, path);
+  return {
+    id: expectNumber(obj, 'id', path),
+    name: expectString(obj, 'name', path),
+    anv: optionalString(obj, 'anv') ?? '',
+    join: optionalString(obj, 'join') ?? '',
+    role: optionalString(obj, 'role') ?? '',
+    tracks: optionalString(obj, 'tracks') ?? '',
+    resource_url: optionalString(obj, 'resource_url') ?? '',
+  };
+}
+
+function parseFormat(value: unknown, path: string): ReleaseData['formats'][number] {
+  const obj = expectObject(value, path);
+  return {
+    name: expectString(obj, 'name', path),
+    qty: optionalString(obj, 'qty') ?? '1',
+    descriptions: arrayOf(obj, 'descriptions', path, stringItem),
+  };
+}
+
+function parseLabelCredit(value: unknown, path: string): ReleaseData['labels'][number] {
+  const obj = expectObject(value, path);
+  return {
+    name: expectString(obj, 'name', path),
+    catno: optionalString(obj, 'catno') ?? '',
+  };
+}
+
+function parseTrack(value: unknown, path: string): ReleaseData['tracklist'][number] {
+  const obj = expectObject(value, path);
+  return {
+    position: optionalString(obj, 'position') ?? '',
+    title: optionalString(obj, 'title') ?? '',
+    duration: optionalString(obj, 'duration') ?? '',
+    // Headings and index entries say so; anything unmarked is a track
+    type_: optionalString(obj, 'type_') ?? 'track',
+  };
+}
+
+function parseImage(value: unknown, path: string): DiscogsImage {
+  const obj = expectObject(value, path);
+  return {
+    type: optionalString(obj, 'type') ?? '',
+    uri: optionalString(obj, 'uri') ?? '',
+    resource_url: optionalString(obj, 'resource_url') ?? '',
+    uri150: optionalString(obj, 'uri150') ?? '',
+    width: optionalNumber(obj, 'width') ?? 0,
+    height: optionalNumber(obj, 'height') ?? 0,
+  };
+}
+
+function parseNamedRef(value: unknown, path: string): { id: number; name: string } {
+  const obj = expectObject(value, path);
+  return {
+    id: expectNumber(obj, 'id', path),
+    name: expectString(obj, 'name', path),
+  };
+}
+
+function parseArtistMember(value: unknown, path: string): { id: number; name: string; active: boolean } {
+  const obj = expectObject(value, path);
+  return {
+    ...parseNamedRef(obj, path),
+    active: optionalBoolean(obj, 'active') ?? false,
+  };
+}
+
+function parsePagination(value: unknown, path: string): DiscogsPagination {
+  const obj = expectObject(value, path);
+  return {
+    page: expectNumber(obj, 'page', path),
+    pages: expectNumber(obj, 'pages', path),
+    per_page: expectNumber(obj, 'per_page', path),
+    items: expectNumber(obj, 'items', path),
+  };
+}
+
+function parseBasicInformation(value: unknown, path: string): CollectionItem['basic_information'] {
+  const obj = expectObject(value, path);
+  return {
+    id: expectNumber(obj, 'id', path),
+    title: expectString(obj, 'title', path),
+    master_id: optionalNumber(obj, 'master_id') ?? null,
+    master_url: optionalString(obj, 'master_url') ?? null,
+    resource_url: optionalString(obj, 'resource_url') ?? '',
+    thumb: optionalString(obj, 'thumb') ?? '',
+    cover_image: optionalString(obj, 'cover_image') ?? '',
+    year: optionalNumber(obj, 'year') ?? 0,
+    formats: arrayOf(obj, 'formats', path, parseFormat),
+    labels: arrayOf(obj, 'labels', path, parseLabelCredit),
+    artists: arrayOf(obj, 'artists', path, parseArtistCredit),
+    genres: arrayOf(obj, 'genres', path, stringItem),
+    styles: arrayOf(obj, 'styles', path, stringItem),
+  };
+}
+
+function parseCollectionNote(value: unknown, path: string): DiscogsCollectionNote {
+  const obj = expectObject(value, path);
+  return {
+    field_id: expectNumber(obj, 'field_id', path),
+    // Empty fields come back as null on some instances
+    value: optionalString(obj, 'value') ?? '',
+  };
+}
+
+function parseCollectionItem(value: unknown, path: string): CollectionItem {
+  const obj = expectObject(value, path);
+  return {
+    id: expectNumber(obj, 'id', path),
+    instance_id: expectNumber(obj, 'instance_id', path),
+    date_added: optionalString(obj, 'date_added') ?? '',
+    rating: optionalNumber(obj, 'rating') ?? 0,
+    folder_id: optionalNumber(obj, 'folder_id') ?? UNCATEGORIZED_FOLDER_ID,
+    notes: arrayOf(obj, 'notes', path, parseCollectionNote),
+    basic_information: parseBasicInformation(obj.basic_information, `${path}.basic_information`),
+  };
+}
+
+function parseIdentity(value: unknown): DiscogsIdentity {
+  const obj = expectObject(value, 'identity');
+  return {
+    id: expectNumber(obj, 'id', 'identity'),
+    username: expectString(obj, 'username', 'identity'),
+    resource_url: expectString(obj, 'resource_url', 'identity'),
+    consumer_name: optionalString(obj, 'consumer_name'),
+  };
+}
+
+function parseUserProfile(value: unknown): DiscogsUserProfile {
+  const obj = expectObject(value, 'profile');
+  return {
+    id: expectNumber(obj, 'id', 'profile'),
+    username: expectString(obj, 'username', 'profile'),
+    resource_url: expectString(obj, 'resource_url', 'profile'),
+    name: optionalString(obj, 'name'),
+    location: optionalString(obj, 'location'),
+    profile: optionalString(obj, 'profile'),
+    avatar_url: optionalString(obj, 'avatar_url'),
+    registered: optionalString(obj, 'registered'),
+    num_collection: optionalNumber(obj, 'num_collection'),
+    num_wantlist: optionalNumber(obj, 'num_wantlist'),
+  };
+}
+
+function parseCollectionFolder(value: unknown, path: string): DiscogsCollectionFolder {
+  const obj = expectObject(value, path);
+  return {
+    id: expectNumber(obj, 'id', path),
+    name: expectString(obj, 'name', path),
+    count: optionalNumber(obj, 'count') ?? 0,
+    resource_url: optionalString(obj, 'resource_url') ?? '',
+  };
+}
+
+function parseCollectionField(value: unknown, path: string): DiscogsCollectionField {
+  const obj = expectObject(value, path);
+  // Anything that isn't a dropdown is free text
+  const type = expectString(obj, 'type', path) === 'dropdown' ? 'dropdown' : 'textarea';
+  return {
+    id: expectNumber(obj, 'id', path),
+    name: expectString(obj, 'name', path),
+    type,
+    position: optionalNumber(obj, 'position') ?? 0,
+    public: obj.public === true,
+    options: type === 'dropdown' ? arrayOf(obj, 'options', path, stringItem) : undefined,
+    lines: optionalNumber(obj, 'lines'),
+  };
+}
+
+function parseCollectionReleasesPage(value: unknown): DiscogsCollectionReleasesPage {
+  const obj = expectObject(value, 'collection');
+  return {
+    pagination: parsePagination(obj.pagination, 'collection.pagination'),
+    releases: arrayOf(obj, 'releases', 'collection', parseCollectionItem),
+  };
+}
+
+function parseRelease(value: unknown): DiscogsRelease {
+  const obj = expectObject(value, 'release');
+  return {
+    id: expectNumber(obj, 'id', 'release'),
+    title: expectString(obj, 'title', 'release'),
+    year: optionalNumber(obj, 'year') ?? 0,
+    artists: arrayOf(obj, 'artists', 'release', parseArtistCredit),
+    genres: arrayOf(obj, 'genres', 'release', stringItem),
+    styles: arrayOf(obj, 'styles', 'release', stringItem),
+    tracklist: arrayOf(obj, 'tracklist', 'release', parseTrack),
+    images: arrayOf(obj, 'images', 'release', parseImage),
+    formats: arrayOf(obj, 'formats', 'release', parseFormat),
+    labels: arrayOf(obj, 'labels', 'release', parseLabelCredit),
+    notes: optionalString(obj, 'notes'),
+    country: optionalString(obj, 'country'),
+    released: optionalString(obj, 'released'),
+    master_id: optionalNumber(obj, 'master_id'),
+    uri: optionalString(obj, 'uri'),
+  };
+}
+
+function parseMaster(value: unknown): DiscogsMaster {
+  const obj = expectObject(value, 'master');
+  return {
+    id: expectNumber(obj, 'id', 'master'),
+    title: expectString(obj, 'title', 'master'),
+    main_release: expectNumber(obj, 'main_release', 'master'),
+    year: optionalNumber(obj, 'year') ?? 0,
+    artists: arrayOf(obj, 'artists', 'master', parseArtistCredit),
+    genres: arrayOf(obj, 'genres', 'master', stringItem),
+    styles: arrayOf(obj, 'styles', 'master', stringItem),
+    tracklist: arrayOf(obj, 'tracklist', 'master', parseTrack),
+    images: arrayOf(obj, 'images', 'master', parseImage),
+  };
+}
+
+function parseArtist(value: unknown): DiscogsArtist {
+  const obj = expectObject(value, 'artist');
+  return {
+    id: expectNumber(obj, 'id', 'artist'),
+    name: expectString(obj, 'name', 'artist'),
+    realname: optionalString(obj, 'realname'),
+    profile: optionalString(obj, 'profile'),
+    images: arrayOf(obj, 'images', 'artist', parseImage),
+    urls: arrayOf(obj, 'urls', 'artist', stringItem),
+    members: obj.members === undefined ? undefined : arrayOf(obj, 'members', 'artist', parseArtistMember),
+  };
+}
+
+function parseLabel(value: unknown): DiscogsLabel {
+  const obj = expectObject(value, 'label');
+  return {
+    id: expectNumber(obj, 'id', 'label'),
+    name: expectString(obj, 'name', 'label'),
+    profile: optionalString(obj, 'profile'),
+    contact_info: optionalString(obj, 'contact_info'),
+    images: arrayOf(obj, 'images', 'label', parseImage),
+    parent_label: obj.parent_label ? parseNamedRef(obj.parent_label, 'label.parent_label') : undefined,
+    sublabels: arrayOf(obj, 'sublabels', 'label', parseNamedRef),
+  };
+}
+
+function parseWant(value: unknown, path: string): DiscogsWant {
+  const obj = expectObject(value, path);
+  return {
+    id: expectNumber(obj, 'id', path),
+    rating: optionalNumber(obj, 'rating') ?? 0,
+    date_added: optionalString(obj, 'date_added'),
+    notes: optionalString(obj, 'notes'),
+    basic_information: parseBasicInformation(obj.basic_information, `${path}.basic_information`),
+  };
+}
+
+function parseWantlistPage(value: unknown): DiscogsWantlistPage {
+  const obj = expectObject(value, 'wantlist');
+  return {
+    pagination: parsePagination(obj.pagination, 'wantlist.pagination'),
+    wants: arrayOf(obj, 'wants', 'wantlist', parseWant),
+  };
+}
+
+/**
+ * Send a request and parse the response, wrapping failures in DiscogsApiError
+ */
+async function request<T>(
+  method: string,
+  endpoint: string,
+  params: Record<string, any>,
+  parse: (data: unknown) => T,
+  account?: DiscogsAccount
+): Promise<T> {
+  let data: unknown;
+  try {
+    data = await makeAuthenticatedRequest(method, endpoint, params, account);
+  } catch (error: any) {
+    if (error instanceof DiscogsAuthExpiredError) {
+      throw error;
+    }
+    const status: number | null = error?.response?.status ?? null;
+    const detail = error?.response?.data?.message || error?.message || 'Request failed';
+    throw new DiscogsApiError(`Discogs ${method} ${endpoint} failed: ${detail}`, status, endpoint);
+  }
+
+  try {
+    return parse(data);
+  } catch (error: any) {
+    if (error instanceof ResponseShapeError) {
+      console.error(`Unexpected response from ${endpoint}:`, error.message);
+      throw new DiscogsApiError(`Unexpected response from Discogs: ${error.message}`, null, endpoint);
+    }
+    throw error;
+  }
+}
+
+function usernamePath(username: string): string {
+  return `/users/${encodeURIComponent(username)}`;
+}
+
+/**
+ * Get the Discogs identity the account's tokens belong to
+ */
+export async function getIdentity(account?: DiscogsAccount): Promise<DiscogsIdentity> {
+  return request('GET', '/oauth/identity', {}, parseIdentity, account);
+}
+
+/**
+ * Get a user's public profile
+ */
+export async function getUserProfile(username: string, account?: DiscogsAccount): Promise<DiscogsUserProfile> {
+  return request('GET', usernamePath(username), {}, parseUserProfile, account);
+}
+
+/**
+ * List a user's collection folders (folder 0 is "All")
+ */
+export async function getCollectionFolders(
+  username: string,
+  account?: DiscogsAccount
+): Promise<DiscogsCollectionFolder[]> {
+  return request(
+    'GET',
+    `${usernamePath(username)}/collection/folders`,
+    {},
+    (data) => arrayOf(expectObject(data, 'folders'), 'folders', 'folders', parseCollectionFolder),
+    account
+  );
+}
+
+/**
+ * List a user's collection custom fields (media condition, sleeve condition, notes, ...)
+ */
+export async function getCollectionFields(
+  username: string,
+  account?: DiscogsAccount
+): Promise<DiscogsCollectionField[]> {
+  return request(
+    'GET',
+    `${usernamePath(username)}/collection/fields`,
+    {},
+    (data) => arrayOf(expectObject(data, 'fields'), 'fields', 'fields', parseCollectionField),
+    account
+  );
+}
+
+/**
+ * Get one page of releases in a collection folder
+ */
+export async function getCollectionReleases(
+  username: string,
+  folderId: number,
+  params: DiscogsCollectionReleasesParams = {},
+  account?: DiscogsAccount
+): Promise<DiscogsCollectionReleasesPage> {
+  return request(
+    'GET',
+    `${usernamePath(username)}/collection/folders/${folderId}/releases`,
+    { ...params },
+    parseCollectionReleasesPage,
+    account
+  );
+}
+
+/**
+ * Set the user's 0-5 star rating on a collection instance (0 clears it)
+ * The instance has to be addressed through its real folder, not folder 0
+ */
+export async function setCollectionItemRating(
+  username: string,
+  folderId: number,
+  releaseId: number,
+  instanceId: number,
+  rating: number,
+  account?: DiscogsAccount
+): Promise<void> {
+  return request(
+    'POST',
+    `${usernamePath(username)}/collection/folders/${folderId}/releases/${releaseId}/instances/${instanceId}`,
+    { rating },
+    // Discogs answers 204 No Content
+    () => undefined,
+    account
+  );
+}
+
+/**
+ * Get full release details
+ */
+export async function getRelease(releaseId: number, account?: DiscogsAccount): Promise<DiscogsRelease> {
+  return request('GET', `/releases/${releaseId}`, {}, parseRelease, account);
+}
+
+/**
+ * Get a master release
+ */
+export async function getMaster(masterId: number, account?: DiscogsAccount): Promise<DiscogsMaster> {
+  return request('GET', `/masters/${masterId}`, {}, parseMaster, account);
+}
+
+/**
+ * Get an artist
+ */
+export async function getArtist(artistId: number, account?: DiscogsAccount): Promise<DiscogsArtist> {
+  return request('GET', `/artists/${artistId}`, {}, parseArtist, account);
+}
+
+/**
+ * Get a label
+ */
+export async function getLabel(labelId: number, account?: DiscogsAccount): Promise<DiscogsLabel> {
+  return request('GET', `/labels/${labelId}`, {}, parseLabel, account);
+}
+
+/**
+ * Get one page of a user's wantlist
+ */
+export async function getWantlist(
+  username: string,
+  params: DiscogsPageParams = {},
+  account?: DiscogsAccount
+): Promise<DiscogsWantlistPage> {
+  return request('GET', `${usernamePath(username)}/wants`, { ...params }, parseWantlistPage, account);
+}
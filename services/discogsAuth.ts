@@ -3,6 +3,10 @@
  * 
  * Handles OAuth 1.0a flow for Discogs API authentication
  * Note: Discogs uses OAuth 1.0a, not OAuth2 despite the naming
+ * Requests are signed with PLAINTEXT or HMAC-SHA1 depending on DISCOGS_CONFIG.signatureMethod,
+ * or by the OAuth proxy (which holds the consumer secret) when DISCOGS_CONFIG.proxyUrl is set
+ * A local user can link several Discogs accounts; tokens are stored per account
+ * and one of them is active at a time
  */
 
 import * as Linking from 'expo-linking';
@@ -10,13 +14,24 @@ import * as WebBrowser from 'expo-web-browser';
 import * as Crypto from 'expo-crypto';
 import { Platform } from 'react-native';
 import { DISCOGS_CONFIG } from '@/config/discogs';
-import axios from 'axios';
+import axios, { AxiosResponse } from 'axios';
 import { getItem, setItem, removeItem } from './storage';
+import { scheduleDiscogsRequest } from './rateLimiter';
+import { OAuthSigningRequest, percentEncode, signRequest } from './oauthSignature';
+import { clearCachedCollection, clearDownloadProgress } from './collectionCache';
+import { DiscogsAccount } from '@/types';
 
-// Token storage keys - will be prefixed with user ID
+// Token storage keys - will be prefixed with user ID and account
 const TOKEN_STORAGE_KEY_PREFIX = 'discogs_access_token_';
 const TOKEN_SECRET_STORAGE_KEY_PREFIX = 'discogs_access_token_secret_';
+// Single-account username key from before multiple accounts; still read for migration
 const USERNAME_STORAGE_KEY_PREFIX = 'discogs_username_';
+// Linked account usernames and the active one - prefixed with user ID
+const ACCOUNTS_STORAGE_KEY_PREFIX = 'discogs_accounts_';
+const ACTIVE_ACCOUNT_STORAGE_KEY_PREFIX = 'discogs_active_account_';
+// Set when Discogs rejects an account's tokens - prefixed with account storage ID
+const EXPIRED_ACCOUNT_STORAGE_KEY_PREFIX = 'discogs_account_expired_';
+const IDENTITY_ENDPOINT = '/oauth/identity';
 
 interface OAuthTokens {
   token: string;
@@ -27,39 +42,141 @@ interface AccessTokens extends OAuthTokens {
   username: string;
 }
 
-// Note: OAuth signature generation removed - using PLAINTEXT method directly in functions
+/**
+ * Thrown when Discogs no longer accepts an account's tokens (revoked or expired)
+ * The tokens have been cleared by the time this is thrown; the account needs
+ * to go through initiateAuth again.
+ */
+export class DiscogsAuthExpiredError extends Error {
+  account: DiscogsAccount;
+
+  constructor(account: DiscogsAccount) {
+    super(`Discogs access for ${account.username} has expired. Please reconnect your account.`);
+    this.name = 'DiscogsAuthExpiredError';
+    this.account = account;
+  }
+}
+
+// Identity checks currently running, keyed by account storage ID
+const inFlightValidations = new Map<string, Promise<boolean>>();
 
 /**
- * Generate OAuth header string
+ * Generate a signed OAuth header string
+ * Signs with DISCOGS_CONFIG.signatureMethod, so the header carries either a
+ * PLAINTEXT or an HMAC-SHA1 signature
  */
-function generateOAuthHeader(params: Record<string, string>): string {
+function generateOAuthHeader(request: Omit<OAuthSigningRequest, 'consumerSecret'>): string {
+  const signatureMethod = DISCOGS_CONFIG.signatureMethod;
+  const params: Record<string, string> = {
+    ...request.oauthParams,
+    oauth_signature_method: signatureMethod,
+  };
+  params.oauth_signature = signRequest(
+    { ...request, oauthParams: params, consumerSecret: DISCOGS_CONFIG.consumerSecret },
+    signatureMethod
+  );
+
   const oauthParams = Object.keys(params)
     .sort()
-    .map((key) => `${encodeURIComponent(key)}="${encodeURIComponent(params[key])}"`)
+    .map((key) => `${percentEncode(key)}="${percentEncode(params[key])}"`)
     .join(', ');
 
   return `OAuth ${oauthParams}`;
 }
 
 /**
- * Get stored access tokens for a user
+ * Get the signed-in user's ID
+ */
+async function getCurrentUserId(): Promise<string | null> {
+  const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
+  return AsyncStorage.getItem('current_user_id');
+}
+
+/**
+ * Build a storage-safe ID for an account, unique per user and Discogs username
+ * SecureStore keys only allow [A-Za-z0-9._-], so other characters (and '_',
+ * to keep the encoding unambiguous) are hex-escaped
  */
-export async function getStoredTokens(userId?: string): Promise<AccessTokens | null> {
-  if (!userId) {
-    // Try to get current user ID from AsyncStorage
-    const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
-    const currentUserId = await AsyncStorage.getItem('current_user_id');
-    if (!currentUserId) return null;
-    userId = currentUserId;
+export function accountStorageId(account: DiscogsAccount): string {
+  const safeUsername = account.username.replace(
+    /[^A-Za-z0-9.-]/g,
+    (char) => `_${char.charCodeAt(0).toString(16)}`
+  );
+  return `${account.userId}_${safeUsername}`;
+}
+
+/**
+ * Move tokens stored under the old one-account-per-user keys into the account list
+ */
+async function migrateLegacyTokens(userId: string): Promise<DiscogsAccount[]> {
+  const token = await getItem(`${TOKEN_STORAGE_KEY_PREFIX}${userId}`);
+  const tokenSecret = await getItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${userId}`);
+  const username = await getItem(`${USERNAME_STORAGE_KEY_PREFIX}${userId}`);
+  if (!token || !tokenSecret || !username) {
+    return [];
   }
 
+  console.log('Migrating single-account Discogs tokens for user:', userId);
+  await storeTokens({ token, tokenSecret, username }, userId);
+  await removeItem(`${TOKEN_STORAGE_KEY_PREFIX}${userId}`);
+  await removeItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${userId}`);
+  // The username key doubles as the display name on the home screen, so it stays
+  return [{ userId, username }];
+}
+
+/**
+ * Get every Discogs account linked to a user
+ */
+export async function getLinkedAccounts(userId?: string): Promise<DiscogsAccount[]> {
+  const resolvedUserId = userId || (await getCurrentUserId());
+  if (!resolvedUserId) return [];
+
   try {
-    const token = await getItem(`${TOKEN_STORAGE_KEY_PREFIX}${userId}`);
-    const tokenSecret = await getItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${userId}`);
-    const username = await getItem(`${USERNAME_STORAGE_KEY_PREFIX}${userId}`);
+    const accountsJson = await getItem(`${ACCOUNTS_STORAGE_KEY_PREFIX}${resolvedUserId}`);
+    if (!accountsJson) {
+      return migrateLegacyTokens(resolvedUserId);
+    }
+    const usernames: string[] = JSON.parse(accountsJson);
+    return usernames.map((username) => ({ userId: resolvedUserId, username }));
+  } catch (error) {
+    console.error('Error getting linked accounts:', error);
+    return [];
+  }
+}
 
-    if (token && tokenSecret && username) {
-      return { token, tokenSecret, username };
+/**
+ * Get the account a user currently has selected, falling back to the first linked one
+ */
+export async function getActiveAccount(userId?: string): Promise<DiscogsAccount | null> {
+  const accounts = await getLinkedAccounts(userId);
+  if (accounts.length === 0) return null;
+
+  const activeUsername = await getItem(`${ACTIVE_ACCOUNT_STORAGE_KEY_PREFIX}${accounts[0].userId}`);
+  return accounts.find((account) => account.username === activeUsername) || accounts[0];
+}
+
+/**
+ * Make a linked account the active one
+ */
+export async function setActiveAccount(account: DiscogsAccount): Promise<void> {
+  await setItem(`${ACTIVE_ACCOUNT_STORAGE_KEY_PREFIX}${account.userId}`, account.username);
+}
+
+/**
+ * Get stored access tokens for an account
+ * Without an account, uses the signed-in user's active account
+ */
+export async function getStoredTokens(account?: DiscogsAccount): Promise<AccessTokens | null> {
+  const resolvedAccount = account || (await getActiveAccount());
+  if (!resolvedAccount) return null;
+
+  try {
+    const storageId = accountStorageId(resolvedAccount);
+    const token = await getItem(`${TOKEN_STORAGE_KEY_PREFIX}${storageId}`);
+    const tokenSecret = await getItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${storageId}`);
+
+    if (token && tokenSecret) {
+      return { token, tokenSecret, username: resolvedAccount.username };
     }
     return null;
   } catch (error) {
@@ -69,23 +186,29 @@ export async function getStoredTokens(userId?: string): Promise<AccessTokens | n
 }
 
 /**
- * Store access tokens securely for a user
+ * Store access tokens securely, linking the account to the user and making it active
  */
 async function storeTokens(tokens: AccessTokens, userId?: string): Promise<void> {
-  if (!userId) {
-    // Get current user ID from AsyncStorage
-    const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
-    const currentUserId = await AsyncStorage.getItem('current_user_id');
-    if (!currentUserId) {
-      throw new Error('No user logged in');
-    }
-    userId = currentUserId;
+  const resolvedUserId = userId || (await getCurrentUserId());
+  if (!resolvedUserId) {
+    throw new Error('No user logged in');
   }
 
+  const account: DiscogsAccount = { userId: resolvedUserId, username: tokens.username };
+  const storageId = accountStorageId(account);
+
   try {
-    await setItem(`${TOKEN_STORAGE_KEY_PREFIX}${userId}`, tokens.token);
-    await setItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${userId}`, tokens.tokenSecret);
-    await setItem(`${USERNAME_STORAGE_KEY_PREFIX}${userId}`, tokens.username);
+    await setItem(`${TOKEN_STORAGE_KEY_PREFIX}${storageId}`, tokens.token);
+    await setItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${storageId}`, tokens.tokenSecret);
+
+    const accountsJson = await getItem(`${ACCOUNTS_STORAGE_KEY_PREFIX}${resolvedUserId}`);
+    const usernames: string[] = accountsJson ? JSON.parse(accountsJson) : [];
+    if (!usernames.includes(tokens.username)) {
+      usernames.push(tokens.username);
+      await setItem(`${ACCOUNTS_STORAGE_KEY_PREFIX}${resolvedUserId}`, JSON.stringify(usernames));
+    }
+    await setActiveAccount(account);
+    await removeItem(`${EXPIRED_ACCOUNT_STORAGE_KEY_PREFIX}${storageId}`);
   } catch (error) {
     console.error('Error storing tokens:', error);
     throw error;
@@ -93,25 +216,141 @@ async function storeTokens(tokens: AccessTokens, userId?: string): Promise<void>
 }
 
 /**
- * Clear stored tokens for a user (logout)
+ * Unlink one Discogs account: drop its tokens and cached collection
  */
-export async function clearStoredTokens(userId?: string): Promise<void> {
-  if (!userId) {
-    const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
-    const currentUserId = await AsyncStorage.getItem('current_user_id');
-    if (!currentUserId) return;
-    userId = currentUserId;
+export async function unlinkAccount(account: DiscogsAccount): Promise<void> {
+  const storageId = accountStorageId(account);
+
+  try {
+    await removeItem(`${TOKEN_STORAGE_KEY_PREFIX}${storageId}`);
+    await removeItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${storageId}`);
+    await removeItem(`${EXPIRED_ACCOUNT_STORAGE_KEY_PREFIX}${storageId}`);
+
+    const remaining = (await getLinkedAccounts(account.userId))
+      .map((linked) => linked.username)
+      .filter((username) => username !== account.username);
+    await setItem(`${ACCOUNTS_STORAGE_KEY_PREFIX}${account.userId}`, JSON.stringify(remaining));
+
+    const activeUsername = await getItem(`${ACTIVE_ACCOUNT_STORAGE_KEY_PREFIX}${account.userId}`);
+    if (activeUsername === account.username) {
+      await removeItem(`${ACTIVE_ACCOUNT_STORAGE_KEY_PREFIX}${account.userId}`);
+    }
+  } catch (error) {
+    console.error('Error unlinking account:', error);
+    throw error;
   }
 
+  await clearCachedCollection(storageId);
+  await clearDownloadProgress(storageId);
+}
+
+/**
+ * Clear stored tokens for every account linked to a user (logout)
+ */
+export async function clearStoredTokens(userId?: string): Promise<void> {
+  const resolvedUserId = userId || (await getCurrentUserId());
+  if (!resolvedUserId) return;
+
   try {
-    await removeItem(`${TOKEN_STORAGE_KEY_PREFIX}${userId}`);
-    await removeItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${userId}`);
-    await removeItem(`${USERNAME_STORAGE_KEY_PREFIX}${userId}`);
+    const accounts = await getLinkedAccounts(resolvedUserId);
+    for (const account of accounts) {
+      const storageId = accountStorageId(account);
+      await removeItem(`${TOKEN_STORAGE_KEY_PREFIX}${storageId}`);
+      await removeItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${storageId}`);
+      await removeItem(`${EXPIRED_ACCOUNT_STORAGE_KEY_PREFIX}${storageId}`);
+    }
+    await removeItem(`${ACCOUNTS_STORAGE_KEY_PREFIX}${resolvedUserId}`);
+    await removeItem(`${ACTIVE_ACCOUNT_STORAGE_KEY_PREFIX}${resolvedUserId}`);
+    await removeItem(`${TOKEN_STORAGE_KEY_PREFIX}${resolvedUserId}`);
+    await removeItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${resolvedUserId}`);
+    await removeItem(`${USERNAME_STORAGE_KEY_PREFIX}${resolvedUserId}`);
   } catch (error) {
     console.error('Error clearing tokens:', error);
   }
 }
 
+/**
+ * Mark an account's link as expired and clear its dead tokens
+ * The account stays linked so the user can reconnect it
+ */
+async function markAccountExpired(account: DiscogsAccount): Promise<void> {
+  const storageId = accountStorageId(account);
+  console.warn(`Discogs rejected the tokens for ${account.username}; marking link as expired`);
+  try {
+    await removeItem(`${TOKEN_STORAGE_KEY_PREFIX}${storageId}`);
+    await removeItem(`${TOKEN_SECRET_STORAGE_KEY_PREFIX}${storageId}`);
+    await setItem(`${EXPIRED_ACCOUNT_STORAGE_KEY_PREFIX}${storageId}`, new Date().toISOString());
+  } catch (error) {
+    console.error('Error marking account as expired:', error);
+  }
+}
+
+/**
+ * Check whether an account's link has expired
+ */
+export async function isAccountExpired(account: DiscogsAccount): Promise<boolean> {
+  return !!(await getItem(`${EXPIRED_ACCOUNT_STORAGE_KEY_PREFIX}${accountStorageId(account)}`));
+}
+
+/**
+ * Get the linked accounts whose links have expired
+ */
+export async function getExpiredAccounts(userId?: string): Promise<DiscogsAccount[]> {
+  const accounts = await getLinkedAccounts(userId);
+  const expired = await Promise.all(accounts.map((account) => isAccountExpired(account)));
+  return accounts.filter((_, index) => expired[index]);
+}
+
+/**
+ * Check an account's tokens against /oauth/identity
+ * Returns false (and marks the link expired) only when Discogs answers 401;
+ * network errors and other failures leave the tokens alone.
+ */
+export async function validateAccount(account: DiscogsAccount): Promise<boolean> {
+  const storageId = accountStorageId(account);
+  const inFlight = inFlightValidations.get(storageId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const validation = (async (): Promise<boolean> => {
+    const tokens = await getStoredTokens(account);
+    if (!tokens) {
+      return false;
+    }
+
+    try {
+      await scheduleDiscogsRequest(() => sendSignedRequest('GET', IDENTITY_ENDPOINT, {}, tokens));
+      return true;
+    } catch (error: any) {
+      if (error?.response?.status === 401) {
+        await markAccountExpired(account);
+        return false;
+      }
+      console.warn(`Could not validate Discogs tokens for ${account.username}:`, error.message);
+      return true;
+    }
+  })();
+
+  inFlightValidations.set(storageId, validation);
+  try {
+    return await validation;
+  } finally {
+    inFlightValidations.delete(storageId);
+  }
+}
+
+/**
+ * Validate every linked account, returning the ones that have expired
+ */
+export async function validateLinkedAccounts(userId?: string): Promise<DiscogsAccount[]> {
+  const accounts = await getLinkedAccounts(userId);
+  const results = await Promise.all(
+    accounts.map(async (account) => (await isAccountExpired(account)) || !(await validateAccount(account)))
+  );
+  return accounts.filter((_, index) => results[index]);
+}
+
 /**
  * Generate random nonce
  */
@@ -121,46 +360,119 @@ async function generateNonce(): Promise<string> {
 }
 
 /**
- * Step 1: Get request token
+ * Make sure the consumer credentials are available for signing on this device
+ * Not needed when a proxy is configured - the proxy holds the secret
  */
-async function getRequestToken(): Promise<OAuthTokens> {
-  const timestamp = Math.floor(Date.now() / 1000).toString();
-  const nonce = await generateNonce();
-
-  // Get redirect URI at runtime
-  const redirectUri = DISCOGS_CONFIG.redirectUri;
-  console.log('Using redirect URI:', redirectUri);
-  console.log('Consumer Key:', DISCOGS_CONFIG.consumerKey ? 'SET' : 'MISSING');
-  console.log('Consumer Secret:', DISCOGS_CONFIG.consumerSecret ? 'SET' : 'MISSING');
-
-  // Validate credentials
+function assertLocalSigningConfigured(): void {
   if (!DISCOGS_CONFIG.consumerKey || DISCOGS_CONFIG.consumerKey === 'YOUR_CONSUMER_KEY') {
     throw new Error('Discogs Consumer Key is not configured. Please set DISCOGS_CONSUMER_KEY in your environment variables.');
   }
   if (!DISCOGS_CONFIG.consumerSecret || DISCOGS_CONFIG.consumerSecret === 'YOUR_CONSUMER_SECRET') {
-    throw new Error('Discogs Consumer Secret is not configured. Please set DISCOGS_CONSUMER_SECRET in your environment variables.');
+    throw new Error(
+      'Discogs Consumer Secret is not configured. Please set DISCOGS_CONSUMER_SECRET in your environment variables, ' +
+      'or set EXPO_PUBLIC_DISCOGS_PROXY_URL so the proxy signs requests instead.'
+    );
   }
+}
 
-  const params: Record<string, string> = {
-    oauth_consumer_key: DISCOGS_CONFIG.consumerKey,
-    oauth_nonce: nonce,
-    oauth_signature_method: 'PLAINTEXT',
-    oauth_timestamp: timestamp,
-    oauth_callback: redirectUri,
-  };
+/**
+ * Send an action to the OAuth proxy, which signs it with the consumer secret
+ */
+async function postToProxy(proxyUrl: string, payload: Record<string, any>): Promise<AxiosResponse> {
+  try {
+    return await axios.post(proxyUrl, payload, {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (proxyError: any) {
+    // A 404 without the proxy's marker header means it's not deployed yet;
+    // with the header it is Discogs itself reporting a missing resource
+    const response = proxyError?.response;
+    if (response?.status === 404 && !response.headers?.['x-discogs-proxy']) {
+      throw new Error(
+        'OAuth proxy endpoint not found (404). The /api/discogs-oauth endpoint is only available when deployed to Vercel.\n\n' +
+        'For local development, please:\n' +
+        '1. Deploy the app to Vercel, or\n' +
+        '2. Use the mobile version which works without a backend\n\n' +
+        'The serverless function file is located at /api/discogs-oauth.js'
+      );
+    }
+    throw proxyError;
+  }
+}
+
+/**
+ * Send a signed API request for the given tokens
+ * Goes through the proxy when one is configured, otherwise signs on device. The proxy
+ * needs the token secret to sign, so it is sent with every call: serve the proxy over HTTPS.
+ */
+async function sendSignedRequest(
+  method: string,
+  endpoint: string,
+  params: Record<string, any>,
+  tokens: OAuthTokens
+): Promise<AxiosResponse> {
+  const isGet = method.toUpperCase() === 'GET';
+  const proxyUrl = DISCOGS_CONFIG.proxyUrl;
+
+  if (proxyUrl) {
+    return postToProxy(proxyUrl, {
+      action: 'api',
+      method: method.toUpperCase(),
+      endpoint,
+      params,
+      token: tokens.token,
+      tokenSecret: tokens.tokenSecret,
+    });
+  }
 
-  // For PLAINTEXT method (Discogs supports this for request token)
-  const signature = `${encodeURIComponent(DISCOGS_CONFIG.consumerSecret)}&`;
+  assertLocalSigningConfigured();
 
-  params.oauth_signature = signature;
+  const url = `${DISCOGS_CONFIG.baseUrl}${endpoint}`;
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = await generateNonce();
+
+  const authHeader = generateOAuthHeader({
+    method,
+    url,
+    oauthParams: {
+      oauth_consumer_key: DISCOGS_CONFIG.consumerKey,
+      oauth_token: tokens.token,
+      oauth_nonce: nonce,
+      oauth_timestamp: timestamp,
+    },
+    // Query parameters are signed; JSON bodies are not part of the base string
+    requestParams: isGet
+      ? Object.fromEntries(Object.entries(params).map(([k, v]) => [k, String(v)]))
+      : undefined,
+    tokenSecret: tokens.tokenSecret,
+  });
 
-  const authHeader = generateOAuthHeader(params);
-  const url = `${DISCOGS_CONFIG.requestTokenUrl}?oauth_callback=${encodeURIComponent(redirectUri)}`;
+  return axios({
+    method: method.toLowerCase(),
+    url,
+    headers: {
+      Authorization: authHeader,
+      'User-Agent': 'VinylRoulette/1.0',
+    },
+    params: isGet ? params : undefined,
+    data: !isGet ? params : undefined,
+  });
+}
+
+/**
+ * Step 1: Get request token
+ */
+async function getRequestToken(): Promise<OAuthTokens> {
+  // Get redirect URI at runtime
+  const redirectUri = DISCOGS_CONFIG.redirectUri;
+  console.log('Using redirect URI:', redirectUri);
 
   try {
     // On web, we MUST use a proxy to avoid CORS issues
-    // On mobile, we can make direct requests
-    const proxyUrl = Platform.OS === 'web' ? DISCOGS_CONFIG.proxyUrl : null;
+    // On mobile, the proxy is used when configured, otherwise we sign on device
+    const proxyUrl = DISCOGS_CONFIG.proxyUrl;
     
     console.log('Requesting token...');
     console.log('Platform:', Platform.OS);
@@ -180,46 +492,43 @@ async function getRequestToken(): Promise<OAuthTokens> {
     
     let response;
     if (proxyUrl) {
-      // Use proxy endpoint (web only)
-      try {
-        console.log('Requesting token via proxy:', proxyUrl);
-        response = await axios.post(
-          proxyUrl,
-          {
-            action: 'request_token',
-            authHeader: authHeader,
+      // The proxy signs the request with the consumer secret
+      console.log('Requesting token via proxy:', proxyUrl);
+      response = await scheduleDiscogsRequest(() =>
+        postToProxy(proxyUrl, {
+          action: 'request_token',
+          callback: redirectUri,
+        })
+      );
+    } else {
+      // Direct request (mobile only - this works because mobile doesn't have CORS restrictions)
+      assertLocalSigningConfigured();
+      console.log('Requesting token directly (mobile):', DISCOGS_CONFIG.requestTokenUrl);
+      // Signed inside the send callback so a 429 retry gets a fresh nonce and timestamp
+      response = await scheduleDiscogsRequest(async () => {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const nonce = await generateNonce();
+        const authHeader = generateOAuthHeader({
+          method: 'POST',
+          url: DISCOGS_CONFIG.requestTokenUrl,
+          oauthParams: {
+            oauth_consumer_key: DISCOGS_CONFIG.consumerKey,
+            oauth_nonce: nonce,
+            oauth_timestamp: timestamp,
+            oauth_callback: redirectUri,
           },
+        });
+
+        return axios.post(
+          DISCOGS_CONFIG.requestTokenUrl,
+          {},
           {
             headers: {
-              'Content-Type': 'application/json',
+              Authorization: authHeader,
             },
           }
         );
-      } catch (proxyError: any) {
-        // If proxy returns 404, it means it's not deployed yet
-        if (proxyError?.response?.status === 404) {
-          throw new Error(
-            'OAuth proxy endpoint not found (404). The /api/discogs-oauth endpoint is only available when deployed to Vercel.\n\n' +
-            'For local development, please:\n' +
-            '1. Deploy the app to Vercel, or\n' +
-            '2. Use the mobile version which works without a backend\n\n' +
-            'The serverless function file is located at /api/discogs-oauth.js'
-          );
-        }
-        throw proxyError;
-      }
-    } else {
-      // Direct request (mobile only - this works because mobile doesn't have CORS restrictions)
-      console.log('Requesting token directly (mobile):', DISCOGS_CONFIG.requestTokenUrl);
-      response = await axios.post(
-        DISCOGS_CONFIG.requestTokenUrl,
-        {},
-        {
-          headers: {
-            Authorization: authHeader,
-          },
-        }
-      );
+      });
     }
 
     console.log('Request token response received');
@@ -261,15 +570,9 @@ async function getRequestToken(): Promise<OAuthTokens> {
 export async function initiateAuth(userId?: string): Promise<string> {
   try {
     // Store userId temporarily for the callback
-    if (userId) {
-      await setItem('discogs_oauth_user_id', userId);
-    } else {
-      // Try to get current user ID
-      const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
-      const currentUserId = await AsyncStorage.getItem('current_user_id');
-      if (currentUserId) {
-        await setItem('discogs_oauth_user_id', currentUserId);
-      }
+    const oauthUserId = userId || (await getCurrentUserId());
+    if (oauthUserId) {
+      await setItem('discogs_oauth_user_id', oauthUserId);
     }
 
     console.log('Getting request token...');
@@ -400,27 +703,10 @@ export async function handleAuthCallback(callbackUrl: string): Promise<AccessTok
   await removeItem('discogs_request_token');
   await removeItem('discogs_request_token_secret');
 
-  const timestamp = Math.floor(Date.now() / 1000).toString();
-  const nonce = await generateNonce();
-
-  const params: Record<string, string> = {
-    oauth_consumer_key: DISCOGS_CONFIG.consumerKey,
-    oauth_token: oauthToken,
-    oauth_nonce: nonce,
-    oauth_signature_method: 'PLAINTEXT',
-    oauth_timestamp: timestamp,
-    oauth_verifier: oauthVerifier,
-  };
-
-  const signature = `${encodeURIComponent(DISCOGS_CONFIG.consumerSecret)}&${encodeURIComponent(requestTokenSecret)}`;
-  params.oauth_signature = signature;
-
-  const authHeader = generateOAuthHeader(params);
-
   try {
     // On web, we MUST use a proxy to avoid CORS issues
-    // On mobile, we can make direct requests
-    const proxyUrl = Platform.OS === 'web' ? DISCOGS_CONFIG.proxyUrl : null;
+    // On mobile, the proxy is used when configured, otherwise we sign on device
+    const proxyUrl = DISCOGS_CONFIG.proxyUrl;
     
     console.log('Exchanging access token...');
     console.log('Platform:', Platform.OS);
@@ -428,44 +714,48 @@ export async function handleAuthCallback(callbackUrl: string): Promise<AccessTok
     
     let response;
     if (proxyUrl) {
-      // Use proxy endpoint (web only)
+      // The proxy signs the exchange; we only hand over our own request token
       console.log('Exchanging token via proxy:', proxyUrl);
-      try {
-        response = await axios.post(
-          proxyUrl,
-          {
-            action: 'access_token',
-            authHeader: authHeader,
+      response = await scheduleDiscogsRequest(() =>
+        postToProxy(proxyUrl, {
+          action: 'access_token',
+          token: oauthToken,
+          tokenSecret: requestTokenSecret,
+          verifier: oauthVerifier,
+        })
+      );
+      console.log('Access token response received via proxy');
+    } else {
+      // Direct request (mobile only - this works because mobile doesn't have CORS restrictions)
+      assertLocalSigningConfigured();
+      console.log('Exchanging token directly (mobile):', DISCOGS_CONFIG.tokenUrl);
+      // Signed per attempt, as in getRequestToken
+      response = await scheduleDiscogsRequest(async () => {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const nonce = await generateNonce();
+        const authHeader = generateOAuthHeader({
+          method: 'POST',
+          url: DISCOGS_CONFIG.tokenUrl,
+          oauthParams: {
+            oauth_consumer_key: DISCOGS_CONFIG.consumerKey,
+            oauth_token: oauthToken,
+            oauth_nonce: nonce,
+            oauth_timestamp: timestamp,
+            oauth_verifier: oauthVerifier,
           },
+          tokenSecret: requestTokenSecret,
+        });
+
+        return axios.post(
+          DISCOGS_CONFIG.tokenUrl,
+          {},
           {
             headers: {
-              'Content-Type': 'application/json',
+              Authorization: authHeader,
             },
           }
         );
-        console.log('Access token response received via proxy');
-      } catch (proxyError: any) {
-        console.error('Proxy error:', proxyError);
-        if (proxyError?.response?.status === 404) {
-          throw new Error(
-            'OAuth proxy endpoint not found (404). The /api/discogs-oauth endpoint is only available when deployed to Vercel.\n\n' +
-            'Please ensure the app is deployed and the serverless function is accessible.'
-          );
-        }
-        throw proxyError;
-      }
-    } else {
-      // Direct request (mobile only - this works because mobile doesn't have CORS restrictions)
-      console.log('Exchanging token directly (mobile):', DISCOGS_CONFIG.tokenUrl);
-      response = await axios.post(
-        DISCOGS_CONFIG.tokenUrl,
-        {},
-        {
-          headers: {
-            Authorization: authHeader,
-          },
-        }
-      );
+      });
       console.log('Access token response received directly');
     }
 
@@ -480,12 +770,10 @@ export async function handleAuthCallback(callbackUrl: string): Promise<AccessTok
     let userId = await getItem('discogs_oauth_user_id');
     if (!userId) {
       // Fallback: try to get current user ID
-      const AsyncStorage = (await import('@react-native-async-storage/async-storage')).default;
-      const currentUserId = await AsyncStorage.getItem('current_user_id');
-      if (!currentUserId) {
+      userId = await getCurrentUserId();
+      if (!userId) {
         throw new Error('No user logged in');
       }
-      userId = currentUserId;
     }
     
     // Clean up temporary user ID storage
@@ -494,26 +782,13 @@ export async function handleAuthCallback(callbackUrl: string): Promise<AccessTok
     // Fetch username from Discogs identity endpoint
     try {
       // Make identity request with the tokens we just received
-      const timestamp = Math.floor(Date.now() / 1000).toString();
-      const nonce = await generateNonce();
-      const url = `${DISCOGS_CONFIG.baseUrl}/oauth/identity`;
-      const allParams: Record<string, string> = {
-        oauth_consumer_key: DISCOGS_CONFIG.consumerKey,
-        oauth_token: tokenData.oauth_token,
-        oauth_nonce: nonce,
-        oauth_signature_method: 'PLAINTEXT',
-        oauth_timestamp: timestamp,
+      const identityTokens: OAuthTokens = {
+        token: tokenData.oauth_token,
+        tokenSecret: tokenData.oauth_token_secret,
       };
-      const signature = `${encodeURIComponent(DISCOGS_CONFIG.consumerSecret)}&${encodeURIComponent(tokenData.oauth_token_secret)}`;
-      allParams.oauth_signature = signature;
-      const authHeader = generateOAuthHeader(allParams);
-      
-      const identityResponse = await axios.get(url, {
-        headers: {
-          Authorization: authHeader,
-          'User-Agent': 'VinylRoulette/1.0',
-        },
-      });
+      const identityResponse = await scheduleDiscogsRequest(() =>
+        sendSignedRequest('GET', IDENTITY_ENDPOINT, {}, identityTokens)
+      );
       
       // Use the username from identity endpoint
       const username = identityResponse.data.username || tokenData.username || 'unknown';
@@ -548,64 +823,42 @@ export async function handleAuthCallback(callbackUrl: string): Promise<AccessTok
   }
 }
 
-/**
- * Get user profile from Discogs API
- */
-export async function getUserProfile(username: string, userId?: string): Promise<any> {
-  return makeAuthenticatedRequest('GET', `/users/${username}`, {}, userId);
-}
-
 /**
  * Make authenticated API request
+ * Requests are queued through the shared rate limiter; signing happens when
+ * the request actually goes out so the nonce and timestamp stay fresh.
+ * Without an account, the signed-in user's active account is used.
+ * The response body is untyped; go through services/discogsApi.ts for parsed results.
  */
 export async function makeAuthenticatedRequest(
   method: string,
   endpoint: string,
   params: Record<string, any> = {},
-  userId?: string
-): Promise<any> {
-  const tokens = await getStoredTokens(userId);
-  if (!tokens) {
+  account?: DiscogsAccount
+): Promise<unknown> {
+  const resolvedAccount = account || (await getActiveAccount());
+  const tokens = resolvedAccount ? await getStoredTokens(resolvedAccount) : null;
+  if (!resolvedAccount || !tokens) {
+    if (resolvedAccount && (await isAccountExpired(resolvedAccount))) {
+      throw new DiscogsAuthExpiredError(resolvedAccount);
+    }
     throw new Error('Not authenticated with Discogs');
   }
 
-  const timestamp = Math.floor(Date.now() / 1000).toString();
-  const nonce = await generateNonce();
-
-  const url = `${DISCOGS_CONFIG.baseUrl}${endpoint}`;
-  const allParams: Record<string, string> = {
-    ...Object.fromEntries(
-      Object.entries(params).map(([k, v]) => [k, String(v)])
-    ),
-    oauth_consumer_key: DISCOGS_CONFIG.consumerKey,
-    oauth_token: tokens.token,
-    oauth_nonce: nonce,
-    oauth_signature_method: 'PLAINTEXT', // Using PLAINTEXT for React Native compatibility
-    oauth_timestamp: timestamp,
-  };
-
-  // PLAINTEXT signature (Discogs supports this)
-  const signature = `${encodeURIComponent(DISCOGS_CONFIG.consumerSecret)}&${encodeURIComponent(tokens.tokenSecret)}`;
-  allParams.oauth_signature = signature;
-
-  const authHeader = generateOAuthHeader(allParams);
-
   try {
-    const response = await axios({
-      method: method.toLowerCase(),
-      url,
-      headers: {
-        Authorization: authHeader,
-        'User-Agent': 'VinylRoulette/1.0',
-      },
-      params: method.toUpperCase() === 'GET' ? params : undefined,
-      data: method.toUpperCase() !== 'GET' ? params : undefined,
-    });
-
+    const response = await scheduleDiscogsRequest(() =>
+      sendSignedRequest(method, endpoint, params, tokens)
+    );
     return response.data;
   } catch (error: any) {
     console.error('API request error:', error.response?.data || error.message);
+    // A 401 can also mean "not allowed to see this" (e.g. a private collection),
+    // so only treat the link as dead if the identity check fails too
+    if (error?.response?.status === 401 && endpoint !== IDENTITY_ENDPOINT) {
+      if (!(await validateAccount(resolvedAccount))) {
+        throw new DiscogsAuthExpiredError(resolvedAccount);
+      }
+    }
     throw error;
   }
 }
-
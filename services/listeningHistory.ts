@@ -0,0 +1,104 @@
+/**
+ * Listening History Service
+ *
+ * Per-user log of records the user confirmed they played ("Spun it"),
+ * with the quiz answers that led to each pick and an optional reaction.
+ * Stored newest first in AsyncStorage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CollectionItem, QuizAnswers, ReleaseData } from '@/types';
+
+const HISTORY_KEY_PREFIX = 'listening_history_';
+// Oldest spins are dropped past this many
+const MAX_HISTORY_ENTRIES = 1000;
+
+export type SpinReaction = 'loved' | 'liked' | 'meh' | 'disliked';
+
+export interface ListeningHistoryEntry {
+  id: string;
+  releaseId: number;
+  instanceId?: number;
+  // Discogs username of the collection the record is in
+  account?: string;
+  title: string;
+  artist: string;
+  year: number;
+  genres: string[];
+  styles: string[];
+  coverImage?: string;
+  playedAt: string;
+  // The quiz answers behind the recommendation, when it came from one
+  answers: QuizAnswers | null;
+  reaction?: SpinReaction;
+}
+
+function historyKey(userId: string): string {
+  return `${HISTORY_KEY_PREFIX}${userId}`;
+}
+
+async function saveHistory(userId: string, entries: ListeningHistoryEntry[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(historyKey(userId), JSON.stringify(entries.slice(0, MAX_HISTORY_ENTRIES)));
+  } catch (error) {
+    console.error('Error saving listening history:', error);
+  }
+}
+
+/**
+ * Get a user's listening history, newest first
+ */
+export async function getListeningHistory(userId: string): Promise<ListeningHistoryEntry[]> {
+  try {
+    const historyJson = await AsyncStorage.getItem(historyKey(userId));
+    return historyJson ? JSON.parse(historyJson) : [];
+  } catch (error) {
+    console.error('Error reading listening history:', error);
+    return [];
+  }
+}
+
+/**
+ * Log that the user played a record
+ */
+export async function recordSpin(
+  userId: string,
+  releaseData: ReleaseData,
+  collectionItem: CollectionItem | undefined,
+  answers: QuizAnswers | null
+): Promise<ListeningHistoryEntry> {
+  const entry: ListeningHistoryEntry = {
+    id: `${Date.now()}-${releaseData.id}`,
+    releaseId: releaseData.id,
+    instanceId: collectionItem?.instance_id,
+    account: collectionItem?.account,
+    title: releaseData.title,
+    artist: releaseData.artists?.[0]?.name || 'Unknown Artist',
+    year: releaseData.year,
+    genres: releaseData.genres || [],
+    styles: releaseData.styles || [],
+    coverImage: collectionItem?.basic_information.thumb || releaseData.images?.[0]?.uri150,
+    playedAt: new Date().toISOString(),
+    answers,
+  };
+
+  const history = await getListeningHistory(userId);
+  await saveHistory(userId, [entry, ...history]);
+  console.log(`Logged spin of ${entry.title}`);
+  return entry;
+}
+
+/**
+ * Set or clear the user's reaction to a logged spin
+ */
+export async function setSpinReaction(
+  userId: string,
+  entryId: string,
+  reaction: SpinReaction | undefined
+): Promise<void> {
+  const history = await getListeningHistory(userId);
+  await saveHistory(
+    userId,
+    history.map((entry) => (entry.id === entryId ? { ...entry, reaction } : entry))
+  );
+}
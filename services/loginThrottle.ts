@@ -0,0 +1,136 @@
+/**
+ * Login Throttle Service
+ *
+ * Tracks failed sign-in attempts per email. After a few free attempts each
+ * further failure doubles the wait before the next try, and too many in a
+ * row lock the email out for a while. State is persisted so restarting the
+ * app doesn't reset it.
+ */
+
+import { getItem, removeItem, setItem } from './storage';
+import { bytesToHex, sha256, utf8Encode } from '@/utils/crypto';
+
+// SecureStore keys only allow [A-Za-z0-9._-], so emails are hashed into the key
+const LOGIN_ATTEMPTS_PREFIX = 'login_attempts_';
+// Failures allowed before any delay kicks in
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+// Failures in a row that trigger a lockout
+const LOCKOUT_THRESHOLD = 8;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Failures older than this are forgotten
+const FAILURE_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+interface LoginAttempts {
+  failures: number;
+  lastFailureAt: number;
+  // No sign-in attempts are accepted before this time (ms since epoch)
+  retryAt: number;
+}
+
+export class LoginThrottledError extends Error {
+  retryAt: number;
+
+  constructor(message: string, retryAt: number) {
+    super(message);
+    this.name = 'LoginThrottledError';
+    this.retryAt = retryAt;
+  }
+}
+
+function attemptsKey(email: string): string {
+  return `${LOGIN_ATTEMPTS_PREFIX}${bytesToHex(sha256(utf8Encode(email.trim().toLowerCase())))}`;
+}
+
+/**
+ * Read the recorded failures for an email, dropping them once they have expired
+ */
+async function getAttempts(email: string): Promise<LoginAttempts | null> {
+  try {
+    const attemptsJson = await getItem(attemptsKey(email));
+    if (!attemptsJson) return null;
+
+    const attempts: LoginAttempts = JSON.parse(attemptsJson);
+    const now = Date.now();
+    const lockoutOver = attempts.failures >= LOCKOUT_THRESHOLD && now >= attempts.retryAt;
+    if (lockoutOver || now - attempts.lastFailureAt > FAILURE_MEMORY_MS) {
+      await removeItem(attemptsKey(email));
+      return null;
+    }
+    return attempts;
+  } catch (error) {
+    console.error('Error reading login attempts:', error);
+    return null;
+  }
+}
+
+/**
+ * Format how long until the next attempt, e.g. "12 seconds" or "3 minutes"
+ */
+export function formatRetryDelay(retryAt: number): string {
+  const seconds = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Get when the next sign-in attempt for an email is allowed, or null if it is allowed now
+ */
+export async function getLoginRetryAt(email: string): Promise<number | null> {
+  const attempts = await getAttempts(email);
+  return attempts && attempts.retryAt > Date.now() ? attempts.retryAt : null;
+}
+
+/**
+ * Throw if an email is currently backed off or locked out
+ */
+export async function assertLoginAllowed(email: string): Promise<void> {
+  const retryAt = await getLoginRetryAt(email);
+  if (retryAt !== null) {
+    throw new LoginThrottledError(
+      `Too many failed sign-in attempts. Try again in ${formatRetryDelay(retryAt)}.`,
+      retryAt
+    );
+  }
+}
+
+/**
+ * Record a failed sign-in and return when the next attempt is allowed (null if immediately)
+ */
+export async function recordFailedLogin(email: string): Promise<number | null> {
+  const previous = await getAttempts(email);
+  const now = Date.now();
+  const failures = (previous?.failures ?? 0) + 1;
+
+  let retryAt = now;
+  if (failures >= LOCKOUT_THRESHOLD) {
+    retryAt = now + LOCKOUT_MS;
+    console.warn(`Sign-in locked for ${LOCKOUT_MS / 60000} minutes after ${failures} failed attempts`);
+  } else if (failures > FREE_ATTEMPTS) {
+    retryAt = now + Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS - 1));
+  }
+
+  try {
+    const attempts: LoginAttempts = { failures, lastFailureAt: now, retryAt };
+    await setItem(attemptsKey(email), JSON.stringify(attempts));
+  } catch (error) {
+    console.error('Error saving login attempts:', error);
+  }
+
+  return retryAt > now ? retryAt : null;
+}
+
+/**
+ * Forget failed attempts for an email after a successful sign-in
+ */
+export async function clearFailedLogins(email: string): Promise<void> {
+  try {
+    await removeItem(attemptsKey(email));
+  } catch (error) {
+    console.error('Error clearing login attempts:', error);
+  }
+}
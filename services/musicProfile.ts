@@ -0,0 +1,145 @@
+/**
+ * Music Profile
+ *
+ * Estimates a record's tempo, energy and valence from its Discogs styles
+ * (falling back to its genres) and, when the tracklist has durations, how
+ * long its tracks run. Grades how well that fits the quiz's mood and tempo
+ * answers on a 0-1 scale.
+ */
+
+import { getGenre, getStyle, MoodProfile } from '@/constants/taxonomy';
+import { CollectionItem, QuizAnswers, ReleaseData } from '@/types';
+
+export interface MusicProfile extends MoodProfile {
+  // Styles (or genres, when no style is known) the estimate is based on
+  basis: string[];
+  // Average track length in seconds, when the tracklist had durations
+  averageTrackSeconds: number | null;
+}
+
+// Where each mood sits in energy/valence space
+const MOOD_TARGETS: Record<QuizAnswers['mood'], { energy: number; valence: number }> = {
+  energetic: { energy: 0.8, valence: 0.6 },
+  relaxed: { energy: 0.3, valence: 0.6 },
+  melancholic: { energy: 0.35, valence: 0.15 },
+  happy: { energy: 0.65, valence: 0.9 },
+  aggressive: { energy: 0.95, valence: 0.2 },
+  peaceful: { energy: 0.1, valence: 0.7 },
+};
+// Energy/valence distance at which a record no longer fits a mood at all
+const MOOD_FALLOFF = 0.6;
+
+// BPM range each quiz tempo stands for
+const TEMPO_RANGES: Record<QuizAnswers['tempo'], { min: number; max: number }> = {
+  slow: { min: 0, max: 90 },
+  medium: { min: 90, max: 120 },
+  fast: { min: 120, max: 150 },
+  'very-fast': { min: 150, max: Infinity },
+};
+// BPM outside the range at which a record no longer fits a tempo at all
+const TEMPO_FALLOFF = 40;
+
+// Average track length (seconds) to the tempo it suggests: short tracks mean a brisk album
+const PACE_POINTS: [number, number][] = [
+  [120, 170],
+  [180, 140],
+  [240, 120],
+  [360, 100],
+  [600, 80],
+];
+// Share of the tempo estimate that comes from track lengths rather than styles
+const PACE_WEIGHT = 0.3;
+
+/**
+ * Parse a Discogs duration like "4:35" or "1:02:03" into seconds
+ */
+function parseDuration(duration: string | undefined): number | null {
+  if (!duration || !/^\d+(:\d{1,2}){1,2}$/.test(duration.trim())) return null;
+  const seconds = duration
+    .trim()
+    .split(':')
+    .reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Average length of the tracks that list a duration; headings and index entries are skipped
+ */
+function averageTrackSeconds(releaseData?: ReleaseData): number | null {
+  const durations = (releaseData?.tracklist || [])
+    .filter((track) => !track.type_ || track.type_ === 'track')
+    .map((track) => parseDuration(track.duration))
+    .filter((seconds): seconds is number => seconds !== null);
+  if (durations.length === 0) return null;
+  return durations.reduce((sum, seconds) => sum + seconds, 0) / durations.length;
+}
+
+/**
+ * Tempo suggested by an average track length, interpolated between PACE_POINTS
+ */
+function paceToBpm(seconds: number): number {
+  const [firstSeconds, firstBpm] = PACE_POINTS[0];
+  if (seconds <= firstSeconds) return firstBpm;
+  for (let i = 1; i < PACE_POINTS.length; i++) {
+    const [toSeconds, toBpm] = PACE_POINTS[i];
+    if (seconds <= toSeconds) {
+      const [fromSeconds, fromBpm] = PACE_POINTS[i - 1];
+      return fromBpm + ((seconds - fromSeconds) / (toSeconds - fromSeconds)) * (toBpm - fromBpm);
+    }
+  }
+  return PACE_POINTS[PACE_POINTS.length - 1][1];
+}
+
+/**
+ * Estimate a record's tempo, energy and valence, or null when none of its styles or genres is known
+ */
+export function estimateMusicProfile(item: CollectionItem, releaseData?: ReleaseData): MusicProfile | null {
+  const styles = releaseData?.styles?.length ? releaseData.styles : item.basic_information.styles || [];
+  const genres = releaseData?.genres?.length ? releaseData.genres : item.basic_information.genres || [];
+
+  const known = (names: string[], lookup: (name: string) => MoodProfile | undefined) =>
+    names.flatMap((name) => {
+      const profile = lookup(name);
+      return profile ? [{ name, profile }] : [];
+    });
+  let matches = known(styles, getStyle);
+  if (matches.length === 0) {
+    matches = known(genres, getGenre);
+  }
+  if (matches.length === 0) return null;
+
+  const basis = matches.map((match) => match.name);
+  const profiles = matches.map((match) => match.profile);
+  const average = (pick: (profile: MoodProfile) => number) =>
+    profiles.reduce((sum, profile) => sum + pick(profile), 0) / profiles.length;
+  const styleBpm = average((profile) => profile.bpm);
+  const trackSeconds = averageTrackSeconds(releaseData);
+
+  return {
+    bpm: trackSeconds === null ? styleBpm : styleBpm * (1 - PACE_WEIGHT) + paceToBpm(trackSeconds) * PACE_WEIGHT,
+    energy: average((profile) => profile.energy),
+    valence: average((profile) => profile.valence),
+    basis,
+    averageTrackSeconds: trackSeconds,
+  };
+}
+
+/**
+ * How well a profile fits a mood, from 0 (not at all) to 1
+ */
+export function scoreMood(profile: MusicProfile, mood: QuizAnswers['mood']): number {
+  const target = MOOD_TARGETS[mood];
+  if (!target) return 0;
+  const distance = Math.hypot(profile.energy - target.energy, profile.valence - target.valence);
+  return Math.max(0, 1 - distance / MOOD_FALLOFF);
+}
+
+/**
+ * How well a profile fits a tempo, from 0 (not at all) to 1 inside the tempo's BPM range
+ */
+export function scoreTempo(profile: MusicProfile, tempo: QuizAnswers['tempo']): number {
+  const range = TEMPO_RANGES[tempo];
+  if (!range) return 0;
+  const outside = profile.bpm < range.min ? range.min - profile.bpm : Math.max(0, profile.bpm - range.max);
+  return Math.max(0, 1 - outside / TEMPO_FALLOFF);
+}
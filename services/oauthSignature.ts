@@ -0,0 +1,123 @@
+/**
+ * OAuth 1.0a Request Signing
+ *
+ * Builds signatures per RFC 5849. PLAINTEXT sends the secrets themselves;
+ * HMAC-SHA1 signs a base string built from the method, URL and normalized
+ * parameters so the secrets never leave the device.
+ */
+
+import { bytesToBase64, hmacSha1, utf8Encode } from '@/utils/crypto';
+
+export type OAuthSignatureMethod = 'PLAINTEXT' | 'HMAC-SHA1';
+
+export interface OAuthSigningRequest {
+  method: string;
+  url: string;
+  // oauth_* protocol parameters, without oauth_signature
+  oauthParams: Record<string, string>;
+  // Query string or form-encoded body parameters that are part of the request
+  requestParams?: Record<string, string>;
+  consumerSecret: string;
+  tokenSecret?: string;
+}
+
+/**
+ * Percent-encode a value per RFC 3986 (RFC 5849 section 3.6)
+ */
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Decode a query string component, treating '+' as a space
+ */
+function decodeQueryComponent(value: string): string {
+  return decodeURIComponent(value.replace(/\+/g, ' '));
+}
+
+/**
+ * Split a URL into its base string URI and query parameters (RFC 5849 section 3.4.1.2)
+ */
+function splitUrl(url: string): { baseUri: string; queryParams: Array<[string, string]> } {
+  const match = url.match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#]+)([^?#]*)(?:\?([^#]*))?/i);
+  if (!match) {
+    throw new Error(`Cannot sign request for invalid URL: ${url}`);
+  }
+
+  const scheme = match[1].toLowerCase();
+  let host = match[2].toLowerCase();
+  const path = match[3] || '/';
+  const query = match[4] || '';
+
+  // Default ports are left out of the base string URI
+  if ((scheme === 'http' && host.endsWith(':80')) || (scheme === 'https' && host.endsWith(':443'))) {
+    host = host.slice(0, host.lastIndexOf(':'));
+  }
+
+  const queryParams: Array<[string, string]> = query
+    .split('&')
+    .filter((pair) => pair.length > 0)
+    .map((pair) => {
+      const separator = pair.indexOf('=');
+      return separator === -1
+        ? [decodeQueryComponent(pair), '']
+        : [decodeQueryComponent(pair.slice(0, separator)), decodeQueryComponent(pair.slice(separator + 1))];
+    });
+
+  return { baseUri: `${scheme}://${host}${path}`, queryParams };
+}
+
+/**
+ * Normalize request parameters (RFC 5849 section 3.4.1.3.2)
+ */
+export function normalizeParameters(params: Array<[string, string]>): string {
+  return params
+    .map(([key, value]) => [percentEncode(key), percentEncode(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) => {
+      if (keyA !== keyB) return keyA < keyB ? -1 : 1;
+      if (valueA !== valueB) return valueA < valueB ? -1 : 1;
+      return 0;
+    })
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * Build the signature base string (RFC 5849 section 3.4.1)
+ */
+export function buildSignatureBaseString(request: OAuthSigningRequest): string {
+  const { baseUri, queryParams } = splitUrl(request.url);
+  const params: Array<[string, string]> = [
+    ...queryParams,
+    ...Object.entries(request.requestParams || {}),
+    ...Object.entries(request.oauthParams).filter(
+      ([key]) => key !== 'oauth_signature' && key !== 'realm'
+    ),
+  ];
+
+  return [
+    request.method.toUpperCase(),
+    percentEncode(baseUri),
+    percentEncode(normalizeParameters(params)),
+  ].join('&');
+}
+
+/**
+ * Sign a request with the given method
+ */
+export function signRequest(
+  request: OAuthSigningRequest,
+  signatureMethod: OAuthSignatureMethod
+): string {
+  const key = `${percentEncode(request.consumerSecret)}&${percentEncode(request.tokenSecret || '')}`;
+
+  if (signatureMethod === 'PLAINTEXT') {
+    return key;
+  }
+
+  const baseString = buildSignatureBaseString(request);
+  return bytesToBase64(hmacSha1(utf8Encode(key), utf8Encode(baseString)));
+}
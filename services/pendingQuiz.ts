@@ -0,0 +1,51 @@
+/**
+ * Pending Quiz Service
+ *
+ * Holds on to a quiz submission while the user reconnects Discogs. On web
+ * the re-auth redirect reloads the app, so the answers have to outlive it.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QuizAnswers } from '@/types';
+
+const PENDING_QUIZ_KEY_PREFIX = 'pending_quiz_';
+// Older submissions are dropped rather than resumed out of the blue
+const PENDING_QUIZ_MAX_AGE_MS = 30 * 60 * 1000;
+
+interface PendingQuiz {
+  answers: QuizAnswers;
+  savedAt: string;
+}
+
+/**
+ * Remember a quiz submission to resume after re-authentication
+ */
+export async function savePendingQuiz(userId: string, answers: QuizAnswers): Promise<void> {
+  try {
+    const pending: PendingQuiz = { answers, savedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(`${PENDING_QUIZ_KEY_PREFIX}${userId}`, JSON.stringify(pending));
+  } catch (error) {
+    console.error('Error saving pending quiz:', error);
+  }
+}
+
+/**
+ * Take the pending quiz submission for a user, removing it from storage
+ */
+export async function takePendingQuiz(userId: string): Promise<QuizAnswers | null> {
+  try {
+    const key = `${PENDING_QUIZ_KEY_PREFIX}${userId}`;
+    const pendingJson = await AsyncStorage.getItem(key);
+    if (!pendingJson) return null;
+
+    await AsyncStorage.removeItem(key);
+    const pending: PendingQuiz = JSON.parse(pendingJson);
+    if (Date.now() - new Date(pending.savedAt).getTime() > PENDING_QUIZ_MAX_AGE_MS) {
+      return null;
+    }
+    return pending.answers;
+  } catch (error) {
+    console.error('Error reading pending quiz:', error);
+    return null;
+  }
+}
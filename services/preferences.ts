@@ -0,0 +1,61 @@
+/**
+ * Recommendation Preferences Service
+ *
+ * Per-user settings that shape which records the recommender may pick,
+ * stored in AsyncStorage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const PREFERENCES_KEY_PREFIX = 'recommendation_preferences_';
+
+export interface RecommendationPreferences {
+  // Leave out records whose media is graded Good or worse
+  skipPoorCondition: boolean;
+  // Leave out records with a "don't spin" note
+  skipDoNotSpin: boolean;
+  // Hold back records recommended or played within this many days (0 turns it off)
+  cooldownDays: number;
+  // Whether records in the cool-down are left out or just less likely
+  cooldownMode: 'exclude' | 'downweight';
+}
+
+export const COOLDOWN_DAY_OPTIONS = [0, 7, 14, 30, 60];
+
+export const DEFAULT_PREFERENCES: RecommendationPreferences = {
+  skipPoorCondition: false,
+  skipDoNotSpin: true,
+  cooldownDays: 14,
+  cooldownMode: 'downweight',
+};
+
+/**
+ * Get a user's recommendation preferences, filling in defaults
+ */
+export async function getPreferences(userId: string): Promise<RecommendationPreferences> {
+  try {
+    const preferencesJson = await AsyncStorage.getItem(`${PREFERENCES_KEY_PREFIX}${userId}`);
+    return preferencesJson
+      ? { ...DEFAULT_PREFERENCES, ...JSON.parse(preferencesJson) }
+      : { ...DEFAULT_PREFERENCES };
+  } catch (error) {
+    console.error('Error reading preferences:', error);
+    return { ...DEFAULT_PREFERENCES };
+  }
+}
+
+/**
+ * Update some of a user's recommendation preferences
+ */
+export async function updatePreferences(
+  userId: string,
+  changes: Partial<RecommendationPreferences>
+): Promise<RecommendationPreferences> {
+  const preferences = { ...(await getPreferences(userId)), ...changes };
+  try {
+    await AsyncStorage.setItem(`${PREFERENCES_KEY_PREFIX}${userId}`, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Error saving preferences:', error);
+  }
+  return preferences;
+}
@@ -0,0 +1,173 @@
+/**
+ * Discogs Request Scheduler
+ *
+ * Every Discogs API call goes through here. The scheduler tracks the budget
+ * Discogs reports in the X-Discogs-Ratelimit-* response headers, lets bursts
+ * run at full speed while budget remains, spaces calls out once it runs low,
+ * and backs off and retries on HTTP 429.
+ */
+
+import { AxiosResponse } from 'axios';
+
+export interface RateLimitSnapshot {
+  limit: number;
+  remaining: number;
+  used: number;
+  // When Discogs last reported the budget (ms since epoch), null before the first response
+  updatedAt: number | null;
+}
+
+// Discogs counts requests over a 60 second moving window
+const WINDOW_MS = 60 * 1000;
+// Authenticated clients get 60 requests per window
+const DEFAULT_LIMIT = 60;
+// Parallel requests allowed while there is budget to spare
+const MAX_CONCURRENT = 4;
+// Slots held back so other clients sharing the token don't get starved
+const RESERVED_BUDGET = 1;
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 2000;
+
+let snapshot: RateLimitSnapshot = {
+  limit: DEFAULT_LIMIT,
+  remaining: DEFAULT_LIMIT,
+  used: 0,
+  updatedAt: null,
+};
+let inFlight = 0;
+let pausedUntil = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+const queue: Array<() => void> = [];
+
+/**
+ * Read a numeric header, returning null when it is missing or malformed
+ */
+function readHeader(headers: any, name: string): number | null {
+  const raw = typeof headers?.get === 'function' ? headers.get(name) : headers?.[name];
+  const value = parseInt(String(raw ?? ''), 10);
+  return Number.isNaN(value) ? null : value;
+}
+
+/**
+ * Update the budget from a response's rate-limit headers
+ */
+function recordHeaders(headers: any): void {
+  const limit = readHeader(headers, 'x-discogs-ratelimit');
+  const remaining = readHeader(headers, 'x-discogs-ratelimit-remaining');
+  const used = readHeader(headers, 'x-discogs-ratelimit-used');
+
+  if (limit === null && remaining === null && used === null) {
+    // No headers (e.g. network error or a proxy that strips them): count the call ourselves
+    snapshot = {
+      ...snapshot,
+      remaining: Math.max(0, snapshot.remaining - 1),
+      used: snapshot.used + 1,
+    };
+    return;
+  }
+
+  const nextLimit = limit ?? snapshot.limit;
+  const nextUsed = used ?? (remaining !== null ? nextLimit - remaining : snapshot.used + 1);
+  snapshot = {
+    limit: nextLimit,
+    remaining: remaining ?? Math.max(0, nextLimit - nextUsed),
+    used: nextUsed,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Wake the queue after a delay, keeping at most one timer pending
+ */
+function scheduleWake(ms: number, onWake?: () => void): void {
+  if (wakeTimer) return;
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    onWake?.();
+    pump();
+  }, ms);
+}
+
+/**
+ * Start as many queued requests as the budget and concurrency cap allow
+ */
+function pump(): void {
+  while (queue.length > 0 && inFlight < MAX_CONCURRENT) {
+    const now = Date.now();
+    if (now < pausedUntil) {
+      scheduleWake(pausedUntil - now);
+      return;
+    }
+
+    // A full window without fresh headers means the old budget has fully rolled off
+    if (snapshot.updatedAt !== null && now - snapshot.updatedAt > WINDOW_MS) {
+      snapshot = { ...snapshot, remaining: snapshot.limit, used: 0, updatedAt: now };
+    }
+
+    if (snapshot.remaining - inFlight <= RESERVED_BUDGET) {
+      // The moving window frees roughly one slot every WINDOW_MS / limit
+      scheduleWake(Math.ceil(WINDOW_MS / snapshot.limit), () => {
+        snapshot = { ...snapshot, remaining: Math.min(snapshot.limit, snapshot.remaining + 1) };
+      });
+      return;
+    }
+
+    const start = queue.shift()!;
+    inFlight++;
+    start();
+  }
+}
+
+/**
+ * Work out how long to wait before retrying a 429
+ */
+function getBackoffMs(error: any, attempt: number): number {
+  const retryAfter = readHeader(error?.response?.headers, 'retry-after');
+  if (retryAfter !== null) {
+    return retryAfter * 1000;
+  }
+  return BASE_BACKOFF_MS * 2 ** attempt;
+}
+
+/**
+ * Queue a Discogs request
+ * `send` is called once a slot is free (and again on retry), so anything
+ * time-sensitive like OAuth nonces and timestamps should be built inside it
+ */
+export function scheduleDiscogsRequest<T = any>(
+  send: () => Promise<AxiosResponse<T>>
+): Promise<AxiosResponse<T>> {
+  return new Promise((resolve, reject) => {
+    const run = async (attempt: number) => {
+      try {
+        const response = await send();
+        recordHeaders(response.headers);
+        resolve(response);
+      } catch (error: any) {
+        recordHeaders(error?.response?.headers);
+
+        if (error?.response?.status === 429 && attempt < MAX_RETRIES) {
+          const backoffMs = getBackoffMs(error, attempt);
+          console.warn(`Discogs rate limit hit, retrying in ${backoffMs}ms (attempt ${attempt + 1})`);
+          pausedUntil = Math.max(pausedUntil, Date.now() + backoffMs);
+          queue.unshift(() => run(attempt + 1));
+        } else {
+          reject(error);
+        }
+      } finally {
+        inFlight--;
+        pump();
+      }
+    };
+
+    queue.push(() => run(0));
+    pump();
+  });
+}
+
+/**
+ * Get the most recently reported rate-limit budget
+ */
+export function getRateLimitSnapshot(): RateLimitSnapshot {
+  return { ...snapshot };
+}
@@ -4,17 +4,101 @@
  * Filters and scores collection items based on quiz answers
  */
 
-import { QuizAnswers, CollectionItem, ReleaseData, Recommendation } from '@/types';
+import { QuizAnswers, CollectionItem, ReleaseData, Recommendation, ScoreCriterion, ScoreFactor } from '@/types';
+import { isMarkedDoNotSpin, isPoorCondition } from './collectionFields';
+import { inferReleaseLanguage, LANGUAGE_NAMES, ReleaseLanguage } from './releaseLanguage';
+import { estimateMusicProfile, MusicProfile, scoreMood, scoreTempo } from './musicProfile';
+import {
+  DiscogsGenre,
+  GenreGroup,
+  genreGroupSimilarity,
+  getGenreGroup,
+  isInGenreGroup,
+  matchesGenreGroup,
+} from '@/constants/taxonomy';
+import { createRandom, pickWeighted } from '@/utils/random';
+
+/**
+ * When each release was last recommended or played (ms since epoch), keyed by release ID
+ */
+export interface RecordActivity {
+  lastRecommendedAt: Map<number, number>;
+  lastPlayedAt: Map<number, number>;
+}
+
+/**
+ * Which records may be recommended, and how recent activity counts against them
+ */
+export interface RecommendationOptions {
+  skipPoorCondition?: boolean;
+  skipDoNotSpin?: boolean;
+  // Releases recommended or played within this many days are held back (0 turns it off)
+  cooldownDays?: number;
+  // 'exclude' drops them outright; 'downweight' lowers their score the more recent they are
+  cooldownMode?: 'exclude' | 'downweight';
+  activity?: RecordActivity;
+  // Fixes the random pick so it can be reproduced
+  seed?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Most a downweighted record can lose, right after it was recommended or played
+const COOLDOWN_PENALTY = 30;
+// A record last played this long ago gets a nudge back into rotation
+const LONG_UNPLAYED_DAYS = 180;
+const LONG_UNPLAYED_BONUS = 5;
+// Softmax temperature range for the quiz's "best match" (0) to "surprise me" (1) setting.
+// Low temperatures almost always take the top score; high ones spread picks widely.
+const MIN_TEMPERATURE = 1.5;
+const MAX_TEMPERATURE = 40;
+const DEFAULT_SURPRISE = 0.5;
+// Mood or tempo fit (0-1) that counts as a match for filtering and earns a reason
+const GOOD_FIT = 0.6;
+
+// Points each criterion is worth; they add up to 100, so a match score reads as a percentage
+const WEIGHTS = {
+  genre: 25,
+  decade: 20,
+  mood: 15,
+  tempo: 10,
+  language: 10,
+  format: 5,
+  rating: 10,
+  recency: 5,
+};
+const MAX_SCORE = 100;
+// How each criterion is labelled in a score breakdown
+const FACTOR_LABELS: Record<ScoreCriterion, string> = {
+  genre: 'Genre',
+  decade: 'Decade',
+  mood: 'Mood',
+  tempo: 'Tempo',
+  language: 'Language',
+  format: 'Format',
+  rating: 'Your rating',
+  recency: 'Recently added',
+  history: 'Play history',
+};
+// Years outside the chosen decade over which the decade score fades to nothing
+const DECADE_FALLOFF_YEARS = 10;
+// Days since a record was added over which the recency score fades to nothing
+const RECENCY_DAYS = 90;
+// Share of the language points a record gets when its language can't be told
+const UNKNOWN_LANGUAGE_FIT = 1 / 3;
+// Share of the genre points that depends on how much of the record sits inside the chosen genres
+const GENRE_OVERLAP_SHARE = 0.25;
+const RATED_REASON = 'you have rated this release';
 
 /**
  * Map quiz answers to filtering criteria
  */
 interface FilterCriteria {
   genres: string[];
-  decade: { min: number; max: number } | null;
-  mood: string[];
-  tempo: string[];
+  decade: { label: string; min: number; max: number } | null;
+  mood: QuizAnswers['mood'];
+  tempo: QuizAnswers['tempo'];
   format: 'album' | 'single' | 'both';
+  language: ReleaseLanguage | null;
 }
 
 /**
@@ -32,30 +116,13 @@ function quizToFilterCriteria(answers: QuizAnswers): FilterCriteria {
     '2020s': { min: 2020, max: 2029 },
   };
 
-  // Map mood to genre/style keywords
-  const moodMap: Record<string, string[]> = {
-    energetic: ['energetic', 'upbeat', 'dance', 'electronic', 'rock', 'punk'],
-    relaxed: ['ambient', 'chill', 'jazz', 'lounge', 'smooth', 'soft'],
-    melancholic: ['sad', 'melancholic', 'depressive', 'dark', 'gothic', 'doom'],
-    happy: ['happy', 'upbeat', 'pop', 'cheerful', 'bright'],
-    aggressive: ['aggressive', 'metal', 'hardcore', 'punk', 'thrash'],
-    peaceful: ['ambient', 'meditation', 'new age', 'calm', 'peaceful'],
-  };
-
-  // Map tempo to style keywords
-  const tempoMap: Record<string, string[]> = {
-    slow: ['slow', 'ballad', 'ambient', 'downtempo'],
-    medium: ['moderate', 'mid-tempo'],
-    fast: ['fast', 'upbeat', 'dance', 'techno'],
-    'very-fast': ['very fast', 'hardcore', 'speed', 'thrash'],
-  };
-
   return {
     genres: answers.genres,
-    decade: answers.decade === 'any' ? null : decadeMap[answers.decade],
-    mood: moodMap[answers.mood] || [],
-    tempo: tempoMap[answers.tempo] || [],
+    decade: answers.decade === 'any' ? null : { label: answers.decade, ...decadeMap[answers.decade] },
+    mood: answers.mood,
+    tempo: answers.tempo,
     format: answers.format,
+    language: answers.language === 'all' ? null : answers.language,
   };
 }
 
@@ -65,7 +132,10 @@ function quizToFilterCriteria(answers: QuizAnswers): FilterCriteria {
 function matchesFormat(item: CollectionItem, format: 'album' | 'single' | 'both'): boolean {
   if (format === 'both') return true;
 
-  const formats = item.basic_information.formats.map((f) => f.name.toLowerCase());
+  // Discogs names the medium ("Vinyl"); "LP", "7\"" and "Single" are descriptions
+  const formats = item.basic_information.formats.flatMap((f) =>
+    [f.name, ...(f.descriptions || [])].map((name) => name.toLowerCase())
+  );
   const isSingle = formats.some((f) => f.includes('single') || f.includes('7"'));
   const isAlbum = formats.some((f) => f.includes('album') || f.includes('lp') || f.includes('12"'));
 
@@ -75,22 +145,58 @@ function matchesFormat(item: CollectionItem, format: 'album' | 'single' | 'both'
   return true;
 }
 
+/**
+ * Resolve a quiz genre answer to a taxonomy group; a bare Discogs genre or style name stands for itself
+ */
+function genreGroupFor(label: string): GenreGroup {
+  return getGenreGroup(label) ?? { label, genres: [label as DiscogsGenre], styles: [label] };
+}
+
 /**
  * Check if a release matches genre
  */
 function matchesGenre(item: CollectionItem, genres: string[]): boolean {
   if (genres.length === 0) return true;
-
-  const itemGenres = [
-    ...(item.basic_information.genres || []),
-    ...(item.basic_information.styles || []),
-  ].map((g) => g.toLowerCase());
-
   return genres.some((genre) =>
-    itemGenres.some((itemGenre) => itemGenre.includes(genre.toLowerCase()))
+    matchesGenreGroup(genreGroupFor(genre), item.basic_information.genres, item.basic_information.styles)
   );
 }
 
+/**
+ * Graded genre fit (0-1): how close the record comes to the nearest chosen genre,
+ * scaled by how much of the record (by style, or genre when it lists no styles) falls inside the chosen genres.
+ * The evidence names the style or genre that matched.
+ */
+function genreFit(item: CollectionItem, genres: string[]): { fit: number; evidence: string } {
+  if (genres.length === 0) return { fit: 1, evidence: 'Any genre' };
+
+  const itemGenres = item.basic_information.genres || [];
+  const itemStyles = item.basic_information.styles || [];
+  const groups = genres.map(genreGroupFor);
+
+  const best = groups
+    .map((group) => ({ group, ...genreGroupSimilarity(group, itemGenres, itemStyles) }))
+    .reduce((a, b) => (b.similarity > a.similarity ? b : a));
+  const tagKind = itemStyles.length > 0 ? 'styles' : 'genres';
+  const tags = itemStyles.length > 0 ? itemStyles : itemGenres;
+  const inside = tags.filter((tag) => groups.some((group) => isInGenreGroup(group, tag))).length;
+  const overlap = tags.length > 0 ? inside / tags.length : 0;
+
+  let evidence: string;
+  if (!best.via) {
+    evidence = tags.length > 0 ? `Nothing close to ${genres.join(' or ')}` : 'No genre or style listed';
+  } else if (best.similarity < 1) {
+    evidence = `${best.via} is ${best.similarity >= GOOD_FIT ? 'close to' : 'far from'} ${best.group.label}`;
+  } else {
+    evidence = best.via === best.group.label ? `Listed as ${best.via}` : `${best.via} is in ${best.group.label}`;
+    if (inside < tags.length) {
+      evidence += ` (${inside} of ${tags.length} ${tagKind})`;
+    }
+  }
+
+  return { fit: best.similarity * (1 - GENRE_OVERLAP_SHARE + GENRE_OVERLAP_SHARE * overlap), evidence };
+}
+
 /**
  * Check if a release matches decade
  */
@@ -101,83 +207,354 @@ function matchesDecade(item: CollectionItem, decade: { min: number; max: number
 }
 
 /**
- * Check if a release matches mood/tempo keywords
+ * Graded decade fit (0-1): full inside the decade, fading with each year outside it
  */
-function matchesMoodTempo(
-  item: CollectionItem,
-  moodKeywords: string[],
-  tempoKeywords: string[]
-): boolean {
-  const allKeywords = [...moodKeywords, ...tempoKeywords];
-  if (allKeywords.length === 0) return true;
+function decadeFit(item: CollectionItem, decade: { min: number; max: number } | null): number {
+  if (!decade) return 1;
+  const year = item.basic_information.year || 0;
+  if (!year) return 0;
+  const yearsOutside = year < decade.min ? decade.min - year : Math.max(0, year - decade.max);
+  return Math.max(0, 1 - yearsOutside / DECADE_FALLOFF_YEARS);
+}
+
+/**
+ * Check if a release's estimated character fits the mood or the tempo
+ */
+function matchesMoodTempo(profile: MusicProfile | null, criteria: FilterCriteria): boolean {
+  if (!profile) return false;
+  return scoreMood(profile, criteria.mood) >= GOOD_FIT || scoreTempo(profile, criteria.tempo) >= GOOD_FIT;
+}
 
-  const itemText = [
-    ...(item.basic_information.genres || []),
-    ...(item.basic_information.styles || []),
-    item.basic_information.title,
-  ]
-    .join(' ')
-    .toLowerCase();
+/**
+ * One criterion's share of a match score, from its 0-1 fit; points are kept to a tenth
+ */
+function scoreFactor(criterion: keyof typeof WEIGHTS, fit: number, evidence: string): ScoreFactor {
+  const possible = WEIGHTS[criterion];
+  return {
+    criterion,
+    label: FACTOR_LABELS[criterion],
+    weight: possible / MAX_SCORE,
+    points: Math.round(possible * fit * 10) / 10,
+    possible,
+    evidence,
+  };
+}
 
-  return allKeywords.some((keyword) => itemText.includes(keyword.toLowerCase()));
+/**
+ * The rating criterion for a record rated `rating` stars (0 when unrated)
+ */
+function ratingFactor(rating: number): ScoreFactor {
+  return rating > 0
+    ? scoreFactor('rating', Math.min(rating, 5) / 5, `You rated it ${rating}/5`)
+    : scoreFactor('rating', 0, 'Not rated yet');
+}
+
+/**
+ * Describe a record's formats, e.g. "Vinyl, LP, Album"
+ */
+function describeFormats(item: CollectionItem): string {
+  const formats = item.basic_information.formats.map((f) => [f.name, ...(f.descriptions || [])].join(', '));
+  return formats.length > 0 ? formats.join(' + ') : 'Format unknown';
 }
 
 /**
- * Calculate match score for a collection item
+ * Calculate match score (0-100) for a collection item
+ * Each criterion earns a 0-1 fit, weighted by WEIGHTS; the breakdown lists what each one earned and why
  */
 function calculateMatchScore(
   item: CollectionItem,
   criteria: FilterCriteria,
   releaseData?: ReleaseData
-): { score: number; reasons: string[] } {
-  let score = 0;
+): { score: number; reasons: string[]; breakdown: ScoreFactor[] } {
   const reasons: string[] = [];
+  const breakdown: ScoreFactor[] = [];
+
+  // Genre: exact members of a chosen genre score in full, related styles partly
+  const genre = genreFit(item, criteria.genres);
+  breakdown.push(scoreFactor('genre', genre.fit, genre.evidence));
+  if (criteria.genres.length > 0 && genre.fit >= GOOD_FIT) {
+    reasons.push(
+      matchesGenre(item, criteria.genres) ? 'matches your preferred genres' : 'close to your preferred genres'
+    );
+  }
 
-  // Genre match (30 points)
-  if (matchesGenre(item, criteria.genres)) {
-    score += 30;
-    reasons.push('matches your preferred genres');
+  // Decade: a 1979 record still scores well for the 1980s
+  const year = item.basic_information.year || 0;
+  const decadeScore = decadeFit(item, criteria.decade);
+  if (!criteria.decade) {
+    breakdown.push(scoreFactor('decade', decadeScore, year ? `Released ${year}; any decade` : 'Any decade'));
+  } else if (!year) {
+    breakdown.push(scoreFactor('decade', decadeScore, 'Release year unknown'));
+  } else if (matchesDecade(item, criteria.decade)) {
+    breakdown.push(scoreFactor('decade', decadeScore, `Released ${year}, in the ${criteria.decade.label}`));
+    reasons.push(`from ${year}, in your preferred decade (the ${criteria.decade.label})`);
+  } else {
+    const before = year < criteria.decade.min;
+    const yearsOutside = before ? criteria.decade.min - year : year - criteria.decade.max;
+    const gap = `${yearsOutside} year${yearsOutside === 1 ? '' : 's'} ${before ? 'before' : 'after'} the ${criteria.decade.label}`;
+    breakdown.push(scoreFactor('decade', decadeScore, `Released ${year}, ${gap}`));
+    if (decadeScore >= GOOD_FIT) {
+      reasons.push(`from ${year}, ${gap}`);
+    }
   }
 
-  // Decade match (25 points)
-  if (matchesDecade(item, criteria.decade)) {
-    score += 25;
-    if (criteria.decade) {
-      reasons.push(`from your preferred decade (${criteria.decade.min}s)`);
+  // Mood and tempo, graded by how close the record's estimated character is
+  const profile = estimateMusicProfile(item, releaseData);
+  if (profile) {
+    const moodFit = scoreMood(profile, criteria.mood);
+    const tempoFit = scoreTempo(profile, criteria.tempo);
+    const basis = profile.basis.slice(0, 2).join(' and ');
+    const pace = profile.averageTrackSeconds === null ? basis : `${basis}, and its track lengths`;
+    breakdown.push(scoreFactor('mood', moodFit, `Going by ${basis}`));
+    breakdown.push(scoreFactor('tempo', tempoFit, `Around ${Math.round(profile.bpm)} BPM, going by ${pace}`));
+
+    if (moodFit >= GOOD_FIT) {
+      reasons.push(`fits ${/^[aeiou]/.test(criteria.mood) ? 'an' : 'a'} ${criteria.mood} mood (${basis})`);
     }
+    if (tempoFit >= GOOD_FIT) {
+      reasons.push(`${criteria.tempo.replace('-', ' ')} tempo, around ${Math.round(profile.bpm)} BPM (going by ${pace})`);
+    }
+  } else {
+    breakdown.push(scoreFactor('mood', 0, 'No known style to judge it by'));
+    breakdown.push(scoreFactor('tempo', 0, 'No known style to judge it by'));
   }
 
-  // Mood/tempo match (25 points)
-  if (matchesMoodTempo(item, criteria.mood, criteria.tempo)) {
-    score += 25;
-    reasons.push('matches your mood and tempo preferences');
+  // Format: "both" takes anything, so it earns no reason
+  if (criteria.format === 'both') {
+    breakdown.push(scoreFactor('format', 1, 'Any format'));
+  } else if (matchesFormat(item, criteria.format)) {
+    breakdown.push(scoreFactor('format', 1, describeFormats(item)));
+    reasons.push(`${criteria.format === 'album' ? 'an album' : 'a single'}, as you asked`);
+  } else {
+    breakdown.push(scoreFactor('format', 0, `${describeFormats(item)}; not ${criteria.format === 'album' ? 'an album' : 'a single'}`));
   }
 
-  // Format match (10 points)
-  if (matchesFormat(item, criteria.format)) {
-    score += 10;
-    reasons.push(`matches your format preference (${criteria.format})`);
+  // Language. Records whose language can't be told get a little credit instead
+  // of none, so they aren't ranked as if they were a mismatch.
+  if (!criteria.language) {
+    breakdown.push(scoreFactor('language', 1, 'Any language'));
+  } else {
+    const inferred = inferReleaseLanguage(item, releaseData);
+    if (!inferred) {
+      breakdown.push(scoreFactor('language', UNKNOWN_LANGUAGE_FIT, "Couldn't tell the language"));
+    } else if (inferred.language === criteria.language) {
+      const hedge = inferred.source === 'country' || inferred.source === 'label' ? 'likely ' : '';
+      breakdown.push(scoreFactor('language', 1, `${LANGUAGE_NAMES[criteria.language]}, ${inferred.detail}`));
+      reasons.push(`${hedge}sung in ${LANGUAGE_NAMES[criteria.language]} (${inferred.detail})`);
+    } else {
+      const name = inferred.language === 'other' ? 'Another language' : LANGUAGE_NAMES[inferred.language];
+      breakdown.push(scoreFactor('language', 0, `${name}, ${inferred.detail}`));
+    }
   }
 
-  // Rating bonus (10 points if rated)
+  // Rating: more stars, more points
+  breakdown.push(ratingFactor(item.rating));
   if (item.rating > 0) {
-    score += 10;
-    reasons.push('you have rated this release');
+    reasons.push(RATED_REASON);
   }
 
-  // Recency bonus (up to 10 points for recently added)
-  if (item.date_added) {
-    const addedDate = new Date(item.date_added);
-    const daysSinceAdded = (Date.now() - addedDate.getTime()) / (1000 * 60 * 60 * 24);
+  // Recency: newly added records score highest, fading over RECENCY_DAYS
+  const daysSinceAdded = item.date_added ? (Date.now() - new Date(item.date_added).getTime()) / DAY_MS : NaN;
+  if (!Number.isNaN(daysSinceAdded)) {
+    const days = Math.max(0, Math.floor(daysSinceAdded));
+    const added = days === 0 ? 'Added today' : `Added ${days} day${days === 1 ? '' : 's'} ago`;
+    breakdown.push(scoreFactor('recency', Math.max(0, Math.min(1, 1 - daysSinceAdded / RECENCY_DAYS)), added));
     if (daysSinceAdded < 30) {
-      score += 10;
       reasons.push('recently added to your collection');
-    } else if (daysSinceAdded < 90) {
-      score += 5;
     }
+  } else {
+    breakdown.push(scoreFactor('recency', 0, 'Date added unknown'));
+  }
+
+  const score = breakdown.reduce((sum, factor) => sum + factor.points, 0);
+  return { score: Math.round(Math.min(MAX_SCORE, score)), reasons, breakdown };
+}
+
+/**
+ * Describe a stretch of days in words, e.g. "3 months" or "over a year"
+ */
+function describeDays(days: number): string {
+  if (days >= 365) return days >= 730 ? `over ${Math.floor(days / 365)} years` : 'over a year';
+  const months = Math.floor(days / 30);
+  return `${months} month${months === 1 ? '' : 's'}`;
+}
+
+interface ScoredItem {
+  item: CollectionItem;
+  score: number;
+  reasons: string[];
+  breakdown: ScoreFactor[];
+  releaseData?: ReleaseData;
+}
+
+/**
+ * A cool-down adjustment as a breakdown entry; it has no points possible, only points gained or lost
+ */
+function historyFactor(points: number, evidence: string): ScoreFactor {
+  return { criterion: 'history', label: FACTOR_LABELS.history, weight: 0, points, possible: 0, evidence };
+}
+
+/**
+ * Hold back recently recommended or played records and favor long-unplayed ones
+ * If excluding would leave nothing, the cool-down is ignored for this pick.
+ */
+function applyCooldown(scoredItems: ScoredItem[], options: RecommendationOptions): ScoredItem[] {
+  const { activity, cooldownDays = 0, cooldownMode = 'downweight' } = options;
+  if (!activity) return scoredItems;
+
+  const now = Date.now();
+  const cooldownMs = cooldownDays * DAY_MS;
+  const adjusted: ScoredItem[] = [];
+  let heldBack = 0;
+
+  scoredItems.forEach((scored) => {
+    const releaseId = scored.item.basic_information.id;
+    const lastPlayed = activity.lastPlayedAt.get(releaseId);
+    const lastActive = Math.max(activity.lastRecommendedAt.get(releaseId) ?? 0, lastPlayed ?? 0);
+    const elapsed = now - lastActive;
+
+    if (cooldownMs > 0 && lastActive > 0 && elapsed < cooldownMs) {
+      heldBack++;
+      if (cooldownMode === 'exclude') return;
+      const penalty = Math.round(COOLDOWN_PENALTY * (1 - elapsed / cooldownMs));
+      const score = Math.max(scored.score > 0 ? 1 : 0, scored.score - penalty);
+      const days = Math.floor(elapsed / DAY_MS);
+      const when = days === 0 ? 'today' : `${days} day${days === 1 ? '' : 's'} ago`;
+      const evidence = `${lastActive === lastPlayed ? 'Played' : 'Recommended'} ${when}`;
+      adjusted.push({ ...scored, score, breakdown: [...scored.breakdown, historyFactor(score - scored.score, evidence)] });
+      return;
+    }
+
+    if (lastPlayed !== undefined && elapsed >= LONG_UNPLAYED_DAYS * DAY_MS) {
+      const score = Math.min(MAX_SCORE, scored.score + LONG_UNPLAYED_BONUS);
+      const unplayed = describeDays(Math.floor(elapsed / DAY_MS));
+      adjusted.push({
+        ...scored,
+        score,
+        reasons: [...scored.reasons, `you haven't played it in ${unplayed}`],
+        breakdown: [...scored.breakdown, historyFactor(score - scored.score, `Not played in ${unplayed}`)],
+      });
+      return;
+    }
+
+    adjusted.push(scored);
+  });
+
+  if (adjusted.length === 0) {
+    console.log('Every candidate is cooling down; ignoring the cool-down for this pick');
+    return scoredItems;
+  }
+  if (heldBack > 0) {
+    console.log(`Cool-down ${cooldownMode === 'exclude' ? 'excluded' : 'downweighted'} ${heldBack} recent records`);
+  }
+  return adjusted;
+}
+
+/**
+ * Order scored items by score (descending), then by rating, then by recency
+ */
+function compareScoredItems(a: ScoredItem, b: ScoredItem): number {
+  if (b.score !== a.score) return b.score - a.score;
+  if (b.item.rating !== a.item.rating) return b.item.rating - a.item.rating;
+
+  const dateA = a.item.date_added ? new Date(a.item.date_added).getTime() : 0;
+  const dateB = b.item.date_added ? new Date(b.item.date_added).getTime() : 0;
+  return dateB - dateA;
+}
+
+/**
+ * Score every item against the quiz and account for what was recommended or played lately
+ */
+function scoreCollection(
+  collection: CollectionItem[],
+  criteria: FilterCriteria,
+  releaseDataMap: Map<number, ReleaseData> | undefined,
+  options: RecommendationOptions
+): ScoredItem[] {
+  return applyCooldown(
+    collection.map((item): ScoredItem => {
+      const releaseData = releaseDataMap?.get(item.basic_information.id);
+      const { score, reasons, breakdown } = calculateMatchScore(item, criteria, releaseData);
+      return { item, score, reasons, breakdown, releaseData };
+    }),
+    options
+  );
+}
+
+/**
+ * Map the 0-1 surprise setting onto a softmax temperature (geometric, so each step feels alike)
+ */
+function surpriseToTemperature(surprise: number): number {
+  const clamped = Math.min(1, Math.max(0, surprise));
+  return MIN_TEMPERATURE * Math.pow(MAX_TEMPERATURE / MIN_TEMPERATURE, clamped);
+}
+
+/**
+ * Softmax-sample up to `count` scored items without replacement, in the order drawn
+ * Items scoring 0 are never picked
+ */
+function sampleByScore(
+  scoredItems: ScoredItem[],
+  surprise: number,
+  count: number,
+  seed?: number
+): ScoredItem[] {
+  const topScore = Math.max(0, ...scoredItems.map((scored) => scored.score));
+  if (topScore === 0) return [];
+
+  const temperature = surpriseToTemperature(surprise);
+  const random = createRandom(seed);
+  // Shifting by the top score keeps exp() from overflowing
+  const weights = scoredItems.map((scored) =>
+    scored.score > 0 ? Math.exp((scored.score - topScore) / temperature) : 0
+  );
+
+  const picks: ScoredItem[] = [];
+  while (picks.length < count) {
+    const index = pickWeighted(weights, random);
+    if (index < 0) break;
+    picks.push(scoredItems[index]);
+    weights[index] = 0;
   }
+  return picks;
+}
 
-  return { score, reasons };
+/**
+ * Keep the first draw as the pick and put the alternatives after it, best score first
+ */
+function orderPicks(picks: ScoredItem[]): ScoredItem[] {
+  return picks.length === 0 ? picks : [picks[0], ...picks.slice(1).sort(compareScoredItems)];
+}
+
+/**
+ * Turn a scored item into a recommendation, building minimal release data when details weren't fetched
+ */
+function toRecommendation(selectedMatch: ScoredItem): Recommendation {
+  const releaseData: ReleaseData = selectedMatch.releaseData || {
+    id: selectedMatch.item.basic_information.id,
+    title: selectedMatch.item.basic_information.title,
+    artists: selectedMatch.item.basic_information.artists.map((a) => ({
+      name: a.name,
+      id: a.id,
+    })),
+    year: selectedMatch.item.basic_information.year,
+    genres: selectedMatch.item.basic_information.genres,
+    styles: selectedMatch.item.basic_information.styles,
+    tracklist: [],
+    images: selectedMatch.item.basic_information.cover_image
+      ? [{ type: 'primary', uri: selectedMatch.item.basic_information.cover_image, resource_url: selectedMatch.item.basic_information.cover_image, uri150: selectedMatch.item.basic_information.thumb, width: 500, height: 500 }]
+      : [],
+    formats: selectedMatch.item.basic_information.formats,
+    labels: selectedMatch.item.basic_information.labels,
+  };
+
+  return {
+    collectionItem: selectedMatch.item,
+    releaseData,
+    matchScore: selectedMatch.score,
+    reasons: selectedMatch.reasons,
+    breakdown: selectedMatch.breakdown,
+  };
 }
 
 /**
@@ -185,18 +562,23 @@ function calculateMatchScore(
  */
 export function filterCollection(
   collection: CollectionItem[],
-  answers: QuizAnswers
+  answers: QuizAnswers,
+  options: RecommendationOptions = {}
 ): CollectionItem[] {
   const criteria = quizToFilterCriteria(answers);
 
   return collection.filter((item) => {
+    // Records the user doesn't want played are never candidates
+    if (options.skipPoorCondition && isPoorCondition(item)) return false;
+    if (options.skipDoNotSpin && isMarkedDoNotSpin(item)) return false;
+
     // Must match format
     if (!matchesFormat(item, criteria.format)) return false;
 
     // Must match at least one: genre, decade, or mood/tempo
     const matchesGenreFilter = matchesGenre(item, criteria.genres);
-    const matchesDecadeFilter = matchesDecade(item, criteria.decade);
-    const matchesMoodTempoFilter = matchesMoodTempo(item, criteria.mood, criteria.tempo);
+    const matchesDecadeFilter = decadeFit(item, criteria.decade) >= GOOD_FIT;
+    const matchesMoodTempoFilter = matchesMoodTempo(estimateMusicProfile(item), criteria);
 
     return matchesGenreFilter || matchesDecadeFilter || matchesMoodTempoFilter;
   });
@@ -207,98 +589,116 @@ export function filterCollection(
  */
 export function broadenFilters(
   collection: CollectionItem[],
-  answers: QuizAnswers
+  answers: QuizAnswers,
+  options: RecommendationOptions = {}
 ): CollectionItem[] {
   // First, try removing format requirement
   const noFormatAnswers = { ...answers, format: 'both' as const };
-  let filtered = filterCollection(collection, noFormatAnswers);
+  let filtered = filterCollection(collection, noFormatAnswers, options);
 
   // If still no matches, try removing decade requirement
+  const noDecadeAnswers = { ...noFormatAnswers, decade: 'any' as const };
   if (filtered.length === 0) {
-    const noDecadeAnswers = { ...noFormatAnswers, decade: 'any' as const };
-    filtered = filterCollection(collection, noDecadeAnswers);
+    filtered = filterCollection(collection, noDecadeAnswers, options);
   }
 
   // If still no matches, try removing genre requirement
   if (filtered.length === 0) {
     const noGenreAnswers = { ...noDecadeAnswers, genres: [] };
-    filtered = filterCollection(collection, noGenreAnswers);
+    filtered = filterCollection(collection, noGenreAnswers, options);
   }
 
   return filtered;
 }
 
 /**
- * Rank and recommend albums from collection
+ * Draw up to `count` picks from the whole collection, judged on its collection data alone
+ * Full release details (tracklist, country) sharpen the language and tempo scores, so
+ * callers fetch them for just these picks and pass them to rescoreRecommendations.
  */
-export function recommendAlbum(
+export function drawRecommendations(
   collection: CollectionItem[],
   answers: QuizAnswers,
-  releaseDataMap?: Map<number, ReleaseData>
-): Recommendation | null {
-  if (collection.length === 0) {
-    return null;
+  count: number,
+  options: RecommendationOptions = {}
+): CollectionItem[] {
+  if (collection.length === 0 || count <= 0) {
+    return [];
   }
 
-  const criteria = quizToFilterCriteria(answers);
+  const scoredItems = scoreCollection(collection, quizToFilterCriteria(answers), undefined, options);
+  scoredItems.sort(compareScoredItems);
+  return sampleByScore(scoredItems, answers.surprise ?? DEFAULT_SURPRISE, count, options.seed).map(
+    (scored) => scored.item
+  );
+}
 
-  // Calculate scores for all items
-  const scoredItems = collection.map((item) => {
-    const releaseData = releaseDataMap?.get(item.basic_information.id);
-    const { score, reasons } = calculateMatchScore(item, criteria, releaseData);
-    return { item, score, reasons, releaseData };
-  });
+/**
+ * Score picks from drawRecommendations again with their release details
+ * The first draw stays the pick; the alternatives follow in their new score order.
+ */
+export function rescoreRecommendations(
+  picks: CollectionItem[],
+  answers: QuizAnswers,
+  releaseDataMap?: Map<number, ReleaseData>,
+  options: RecommendationOptions = {}
+): Recommendation[] {
+  return orderPicks(scoreCollection(picks, quizToFilterCriteria(answers), releaseDataMap, options)).map(
+    toRecommendation
+  );
+}
 
-  // Sort by score (descending), then by rating, then by recency
-  scoredItems.sort((a, b) => {
-    if (b.score !== a.score) return b.score - a.score;
-    if (b.item.rating !== a.item.rating) return b.item.rating - a.item.rating;
+/**
+ * Rank up to `count` recommendations from the collection, each with its score and reasons
+ * The first entry is the sampler's pick; the alternatives drawn with it follow in score
+ * order. At a high surprise setting an alternative can outscore the pick.
+ */
+export function rankRecommendations(
+  collection: CollectionItem[],
+  answers: QuizAnswers,
+  count: number,
+  releaseDataMap?: Map<number, ReleaseData>,
+  options: RecommendationOptions = {}
+): Recommendation[] {
+  if (collection.length === 0 || count <= 0) {
+    return [];
+  }
 
-    const dateA = a.item.date_added ? new Date(a.item.date_added).getTime() : 0;
-    const dateB = b.item.date_added ? new Date(b.item.date_added).getTime() : 0;
-    return dateB - dateA;
-  });
+  const scoredItems = scoreCollection(collection, quizToFilterCriteria(answers), releaseDataMap, options);
+  scoredItems.sort(compareScoredItems);
 
-  const topScore = scoredItems[0]?.score ?? 0;
-  if (topScore === 0) {
-    return null;
-  }
+  // Every scored item stays in the running; higher scores are exponentially likelier
+  const picks = sampleByScore(scoredItems, answers.surprise ?? DEFAULT_SURPRISE, count, options.seed);
+  return orderPicks(picks).map(toRecommendation);
+}
 
-  // If multiple items have scores very close to the top score (within 5 points), randomly select from them
-  const SCORE_THRESHOLD = 5;
-  const closeMatches = scoredItems.filter((item) => topScore - item.score <= SCORE_THRESHOLD);
-  
-  // Randomly select from close matches if there are multiple
-  const selectedMatch = closeMatches.length > 1
-    ? closeMatches[Math.floor(Math.random() * closeMatches.length)]
-    : scoredItems[0];
-  
-  if (!selectedMatch) return null;
-
-  // If we don't have release data, create a minimal one
-  const releaseData: ReleaseData = selectedMatch.releaseData || {
-    id: selectedMatch.item.basic_information.id,
-    title: selectedMatch.item.basic_information.title,
-    artists: selectedMatch.item.basic_information.artists.map((a) => ({
-      name: a.name,
-      id: a.id,
-    })),
-    year: selectedMatch.item.basic_information.year,
-    genres: selectedMatch.item.basic_information.genres,
-    styles: selectedMatch.item.basic_information.styles,
-    tracklist: [],
-    images: selectedMatch.item.basic_information.cover_image
-      ? [{ type: 'primary', uri: selectedMatch.item.basic_information.cover_image, resource_url: selectedMatch.item.basic_information.cover_image, uri150: selectedMatch.item.basic_information.thumb, width: 500, height: 500 }]
-      : [],
-    formats: selectedMatch.item.basic_information.formats,
-    labels: selectedMatch.item.basic_information.labels,
-  };
+/**
+ * Update a recommendation after the user rates the record, without scoring it again
+ * The rating factor is rebuilt and the match score moves by the points it gained or lost.
+ */
+export function applyRating(recommendation: Recommendation, rating: number): Recommendation {
+  const factor = ratingFactor(rating);
+  const breakdown = recommendation.breakdown ?? [];
+  const previous = breakdown.find((existing) => existing.criterion === 'rating')?.points ?? 0;
+  const reasons = recommendation.reasons.filter((reason) => reason !== RATED_REASON);
 
   return {
-    collectionItem: selectedMatch.item,
-    releaseData,
-    matchScore: selectedMatch.score,
-    reasons: selectedMatch.reasons,
+    ...recommendation,
+    collectionItem: { ...recommendation.collectionItem, rating },
+    matchScore: Math.max(0, Math.min(MAX_SCORE, Math.round(recommendation.matchScore + factor.points - previous))),
+    reasons: rating > 0 ? [...reasons, RATED_REASON] : reasons,
+    breakdown: breakdown.map((existing) => (existing.criterion === 'rating' ? factor : existing)),
   };
 }
 
+/**
+ * Recommend one album from the collection
+ */
+export function recommendAlbum(
+  collection: CollectionItem[],
+  answers: QuizAnswers,
+  releaseDataMap?: Map<number, ReleaseData>,
+  options: RecommendationOptions = {}
+): Recommendation | null {
+  return rankRecommendations(collection, answers, 1, releaseDataMap, options)[0] ?? null;
+}
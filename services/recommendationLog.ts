@@ -0,0 +1,68 @@
+/**
+ * Recommendation Log Service
+ *
+ * Remembers which releases were recommended to a user and when, so the
+ * recommender can hold back records it suggested (or the user played)
+ * recently. Stored newest first in AsyncStorage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getListeningHistory } from './listeningHistory';
+import { RecordActivity } from './recommendationEngine';
+
+const RECOMMENDATION_LOG_KEY_PREFIX = 'recommendation_log_';
+// Oldest entries are dropped past this many
+const MAX_LOG_ENTRIES = 500;
+
+interface RecommendationLogEntry {
+  releaseId: number;
+  recommendedAt: string;
+}
+
+async function getRecommendationLog(userId: string): Promise<RecommendationLogEntry[]> {
+  try {
+    const logJson = await AsyncStorage.getItem(`${RECOMMENDATION_LOG_KEY_PREFIX}${userId}`);
+    return logJson ? JSON.parse(logJson) : [];
+  } catch (error) {
+    console.error('Error reading recommendation log:', error);
+    return [];
+  }
+}
+
+/**
+ * Record that a release was recommended to the user
+ */
+export async function logRecommendation(userId: string, releaseId: number): Promise<void> {
+  const entry: RecommendationLogEntry = { releaseId, recommendedAt: new Date().toISOString() };
+  const log = [entry, ...(await getRecommendationLog(userId))].slice(0, MAX_LOG_ENTRIES);
+  try {
+    await AsyncStorage.setItem(`${RECOMMENDATION_LOG_KEY_PREFIX}${userId}`, JSON.stringify(log));
+  } catch (error) {
+    console.error('Error saving recommendation log:', error);
+  }
+}
+
+/**
+ * Keep the latest time per release
+ */
+function latestByRelease(entries: Array<{ releaseId: number; at: string }>): Map<number, number> {
+  const latest = new Map<number, number>();
+  entries.forEach(({ releaseId, at }) => {
+    const time = new Date(at).getTime();
+    if (!Number.isNaN(time) && time > (latest.get(releaseId) ?? 0)) {
+      latest.set(releaseId, time);
+    }
+  });
+  return latest;
+}
+
+/**
+ * Get when each release was last recommended to and last played by a user
+ */
+export async function getRecordActivity(userId: string): Promise<RecordActivity> {
+  const [log, history] = await Promise.all([getRecommendationLog(userId), getListeningHistory(userId)]);
+  return {
+    lastRecommendedAt: latestByRelease(log.map((entry) => ({ releaseId: entry.releaseId, at: entry.recommendedAt }))),
+    lastPlayedAt: latestByRelease(history.map((entry) => ({ releaseId: entry.releaseId, at: entry.playedAt }))),
+  };
+}
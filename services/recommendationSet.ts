@@ -0,0 +1,109 @@
+/**
+ * Recommendation Set Service
+ *
+ * Hands a quiz's ranked picks from the auth flow to the recommendation
+ * screen. Router params end up in the URL on web, so only the set's ID is
+ * passed there. The picks stay in memory, with a copy in AsyncStorage so a
+ * reloaded screen can still find them. Only the latest set per user is kept.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QuizAnswers, Recommendation } from '@/types';
+
+const RECOMMENDATION_SET_KEY_PREFIX = 'recommendation_set_';
+// Older sets are treated as gone; the quiz is cheap to retake
+const RECOMMENDATION_SET_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface RecommendationSet {
+  id: string;
+  savedAt: string;
+  recommendations: Recommendation[];
+  answers: QuizAnswers;
+}
+
+// The set saved in this session, so the screen can show it without waiting on storage
+let latestSet: RecommendationSet | null = null;
+
+/**
+ * Check a set is the one asked for and not expired
+ */
+function isCurrent(set: RecommendationSet | null, setId: string | undefined): set is RecommendationSet {
+  return (
+    !!set &&
+    set.id === setId &&
+    Date.now() - new Date(set.savedAt).getTime() <= RECOMMENDATION_SET_MAX_AGE_MS
+  );
+}
+
+/**
+ * Store a quiz's picks, replacing the user's previous set, and return the set's ID
+ */
+export async function saveRecommendationSet(
+  userId: string,
+  recommendations: Recommendation[],
+  answers: QuizAnswers
+): Promise<string> {
+  const set: RecommendationSet = {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    savedAt: new Date().toISOString(),
+    recommendations,
+    answers,
+  };
+  latestSet = set;
+  try {
+    await AsyncStorage.setItem(`${RECOMMENDATION_SET_KEY_PREFIX}${userId}`, JSON.stringify(set));
+  } catch (error) {
+    // The in-memory copy still serves this session
+    console.error('Error saving recommendation set:', error);
+  }
+  return set.id;
+}
+
+/**
+ * Get a set saved in this session, or null if it has to be loaded from storage
+ */
+export function peekRecommendationSet(setId: string | undefined): RecommendationSet | null {
+  return isCurrent(latestSet, setId) ? latestSet : null;
+}
+
+/**
+ * Get a set by ID, from memory or storage; null when it was replaced or has expired
+ */
+export async function loadRecommendationSet(
+  userId: string,
+  setId: string | undefined
+): Promise<RecommendationSet | null> {
+  const inMemory = peekRecommendationSet(setId);
+  if (inMemory) return inMemory;
+
+  try {
+    const setJson = await AsyncStorage.getItem(`${RECOMMENDATION_SET_KEY_PREFIX}${userId}`);
+    const stored: RecommendationSet | null = setJson ? JSON.parse(setJson) : null;
+    return isCurrent(stored, setId) ? stored : null;
+  } catch (error) {
+    console.error('Error reading recommendation set:', error);
+    return null;
+  }
+}
+
+/**
+ * Change the picks of a stored set, e.g. after a rating is saved; does nothing once the set is gone
+ */
+export async function updateRecommendationSet(
+  userId: string,
+  setId: string | undefined,
+  update: (recommendations: Recommendation[]) => Recommendation[]
+): Promise<void> {
+  const set = await loadRecommendationSet(userId, setId);
+  if (!set) return;
+
+  const updated: RecommendationSet = { ...set, recommendations: update(set.recommendations) };
+  if (latestSet?.id === updated.id) {
+    latestSet = updated;
+  }
+  try {
+    await AsyncStorage.setItem(`${RECOMMENDATION_SET_KEY_PREFIX}${userId}`, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error updating recommendation set:', error);
+  }
+}
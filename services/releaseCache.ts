@@ -0,0 +1,81 @@
+/**
+ * Release Cache Service
+ *
+ * Persists `/releases/{id}` payloads so repeat quiz runs don't re-fetch them
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReleaseData } from '@/types';
+
+const RELEASE_CACHE_KEY_PREFIX = 'discogs_release_cache_';
+
+// Release metadata rarely changes, so a week is a safe default
+export const DEFAULT_RELEASE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CachedRelease {
+  data: ReleaseData;
+  cachedAt: number;
+}
+
+function isFresh(entry: CachedRelease, ttlMs: number): boolean {
+  return Date.now() - entry.cachedAt < ttlMs;
+}
+
+/**
+ * Get a cached release if it hasn't expired
+ */
+export async function getCachedRelease(
+  releaseId: number,
+  ttlMs: number = DEFAULT_RELEASE_CACHE_TTL_MS
+): Promise<ReleaseData | null> {
+  try {
+    const entryJson = await AsyncStorage.getItem(`${RELEASE_CACHE_KEY_PREFIX}${releaseId}`);
+    if (!entryJson) return null;
+
+    const entry: CachedRelease = JSON.parse(entryJson);
+    return isFresh(entry, ttlMs) ? entry.data : null;
+  } catch (error) {
+    console.error(`Error reading cached release ${releaseId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get every unexpired cached release out of a list of ids in one storage round trip
+ */
+export async function getCachedReleases(
+  releaseIds: number[],
+  ttlMs: number = DEFAULT_RELEASE_CACHE_TTL_MS
+): Promise<Map<number, ReleaseData>> {
+  const cached = new Map<number, ReleaseData>();
+  if (releaseIds.length === 0) return cached;
+
+  try {
+    const entries = await AsyncStorage.multiGet(
+      releaseIds.map((id) => `${RELEASE_CACHE_KEY_PREFIX}${id}`)
+    );
+    entries.forEach(([, entryJson], index) => {
+      if (!entryJson) return;
+      const entry: CachedRelease = JSON.parse(entryJson);
+      if (isFresh(entry, ttlMs)) {
+        cached.set(releaseIds[index], entry.data);
+      }
+    });
+  } catch (error) {
+    console.error('Error reading cached releases:', error);
+  }
+
+  return cached;
+}
+
+/**
+ * Save a release to the cache
+ */
+export async function saveCachedRelease(release: ReleaseData): Promise<void> {
+  const entry: CachedRelease = { data: release, cachedAt: Date.now() };
+  try {
+    await AsyncStorage.setItem(`${RELEASE_CACHE_KEY_PREFIX}${release.id}`, JSON.stringify(entry));
+  } catch (error) {
+    console.error(`Error caching release ${release.id}:`, error);
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Release Language Inference
+ *
+ * Discogs doesn't record what language a release is sung in, so this
+ * guesses it from what it does have: the script and common words in the
+ * titles and tracklist, the country the release was issued in, and
+ * well-known regional labels. Returns null when there's nothing to go on,
+ * so callers can treat the language as unknown rather than a mismatch.
+ */
+
+import { CollectionItem, QuizAnswers, ReleaseData } from '@/types';
+
+export type ReleaseLanguage = Exclude<QuizAnswers['language'], 'all'>;
+
+export interface LanguageInference {
+  // 'other' means a language the quiz doesn't offer, e.g. Cyrillic or Arabic text
+  language: ReleaseLanguage | 'other';
+  source: 'script' | 'words' | 'country' | 'label';
+  // What the guess was based on, e.g. "released in Argentina"
+  detail: string;
+}
+
+export const LANGUAGE_NAMES: Record<ReleaseLanguage, string> = {
+  english: 'English',
+  spanish: 'Spanish',
+  french: 'French',
+  german: 'German',
+  italian: 'Italian',
+  portuguese: 'Portuguese',
+  japanese: 'Japanese',
+  korean: 'Korean',
+  chinese: 'Chinese',
+};
+
+// Languages written in their own script; a Latin-only tracklist suggests the record isn't sung in them
+const NON_LATIN_LANGUAGES: ReleaseLanguage[] = ['japanese', 'korean', 'chinese'];
+
+const KANA_PATTERN = /[\u3040-\u30ff]/;
+const HANGUL_PATTERN = /[\uac00-\ud7af\u1100-\u11ff\u3130-\u318f]/;
+const HAN_PATTERN = /[\u4e00-\u9fff]/;
+// Cyrillic, Greek, Hebrew, Arabic, Thai, Devanagari
+const OTHER_SCRIPT_PATTERN = /[\u0400-\u04ff\u0370-\u03ff\u0590-\u05ff\u0600-\u06ff\u0e00-\u0e7f\u0900-\u097f]/;
+
+// Common short words that mostly belong to one language; overlaps are settled by count
+const LANGUAGE_WORDS: Record<Exclude<ReleaseLanguage, 'japanese' | 'korean' | 'chinese'>, string[]> = {
+  english: ['the', 'and', 'you', 'your', 'love', 'my', 'me', 'of', 'is', 'to', 'on', 'with', "don't", "i'm", 'night', 'heart'],
+  spanish: ['el', 'los', 'las', 'que', 'y', 'mi', 'amor', 'corazón', 'por', 'con', 'una', 'del', 'noche', 'vida', 'canción'],
+  french: ['le', 'les', 'des', 'et', 'je', 'pas', 'du', 'une', 'au', 'mon', 'ma', 'qui', 'dans', 'est', 'amour', 'nuit'],
+  german: ['der', 'die', 'das', 'und', 'ich', 'nicht', 'ein', 'eine', 'mit', 'mein', 'du', 'ist', 'auf', 'dem', 'den', 'liebe', 'nacht'],
+  italian: ['il', 'di', 'che', 'non', 'per', 'della', 'gli', 'mio', 'sei', 'amore', 'notte', 'cuore', 'sono'],
+  portuguese: ['o', 'os', 'do', 'da', 'dos', 'das', 'não', 'você', 'meu', 'minha', 'em', 'um', 'coração', 'noite', 'saudade'],
+};
+
+// Letters only one of the languages uses; each counts for two words
+const LANGUAGE_LETTERS: Partial<Record<ReleaseLanguage, RegExp>> = {
+  spanish: /[ñ¿¡]/g,
+  german: /[ßäö]/g,
+  portuguese: /[ãõ]/g,
+};
+
+// Release countries as Discogs names them
+const COUNTRY_LANGUAGES: Record<string, ReleaseLanguage> = {
+  'US': 'english',
+  'UK': 'english',
+  'Canada': 'english',
+  'Australia': 'english',
+  'Ireland': 'english',
+  'New Zealand': 'english',
+  'Spain': 'spanish',
+  'Mexico': 'spanish',
+  'Argentina': 'spanish',
+  'Colombia': 'spanish',
+  'Chile': 'spanish',
+  'Peru': 'spanish',
+  'Venezuela': 'spanish',
+  'Cuba': 'spanish',
+  'Uruguay': 'spanish',
+  'France': 'french',
+  'Germany': 'german',
+  'German Democratic Republic (GDR)': 'german',
+  'Austria': 'german',
+  'Italy': 'italian',
+  'Brazil': 'portuguese',
+  'Portugal': 'portuguese',
+  'Japan': 'japanese',
+  'South Korea': 'korean',
+  'China': 'chinese',
+  'Taiwan': 'chinese',
+  'Hong Kong': 'chinese',
+};
+
+// Labels tied to one language market; weaker evidence than the country. Discogs
+// doesn't record a label's country, so these are names only: generic words like
+// "Discos" or "Disques" and labels with branches in several countries (Ariola,
+// Metronome) are left out, since they mislabel more than they catch.
+const LABEL_LANGUAGES: { pattern: RegExp; language: ReleaseLanguage }[] = [
+  { pattern: /\b(toshiba|nippon (columbia|victor|crown)|victor entertainment|king records|tokuma|pony canyon|teichiku|cbs\/sony|epic\/sony|avex|polystar)\b/i, language: 'japanese' },
+  { pattern: /\b(sm entertainment|yg entertainment|jyp|big hit|hybe|loen|stone music|kakao)\b/i, language: 'korean' },
+  { pattern: /\b(rock records|cinepoly|capital artists|what's music)\b/i, language: 'chinese' },
+  { pattern: /\b(som livre|copacabana|rge|valentim de carvalho|orfeu)\b/i, language: 'portuguese' },
+  { pattern: /\b(hispavox|zafiro|belter|discos fuentes)\b/i, language: 'spanish' },
+  { pattern: /\b(barclay|saravah|carr[èe]re)\b|\bpath[ée](?![a-z])/i, language: 'french' },
+  { pattern: /\b(amiga|telefunken|bellaphon|hansa)\b/i, language: 'german' },
+  { pattern: /\b(ricordi|cgd|fonit|cetra|numero uno|clan celentano)\b/i, language: 'italian' },
+];
+
+/**
+ * Titles and track names to read the language from
+ */
+function releaseText(item: CollectionItem, releaseData?: ReleaseData): string {
+  return [
+    item.basic_information.title,
+    releaseData?.title,
+    ...(releaseData?.tracklist || []).map((track) => track.title),
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Tell the language from the writing system, when it isn't Latin
+ */
+function inferFromScript(text: string, country?: string): LanguageInference | null {
+  if (KANA_PATTERN.test(text)) {
+    return { language: 'japanese', source: 'script', detail: 'Japanese text in the titles' };
+  }
+  if (HANGUL_PATTERN.test(text)) {
+    return { language: 'korean', source: 'script', detail: 'Korean text in the titles' };
+  }
+  if (HAN_PATTERN.test(text)) {
+    // Kanji-only titles do turn up on Japanese releases
+    return country === 'Japan'
+      ? { language: 'japanese', source: 'script', detail: 'Japanese text in the titles' }
+      : { language: 'chinese', source: 'script', detail: 'Chinese text in the titles' };
+  }
+  if (OTHER_SCRIPT_PATTERN.test(text)) {
+    return { language: 'other', source: 'script', detail: 'titles in another script' };
+  }
+  return null;
+}
+
+/**
+ * Tell the language of Latin-script titles from their common words
+ */
+function inferFromWords(text: string): LanguageInference | null {
+  const lowered = text.toLowerCase();
+  const words = lowered.split(/[^\p{L}']+/u).filter(Boolean);
+  const counts = Object.entries(LANGUAGE_WORDS).map(([language, vocabulary]) => {
+    const letters = LANGUAGE_LETTERS[language as ReleaseLanguage];
+    const letterCount = letters ? (lowered.match(letters)?.length ?? 0) : 0;
+    return {
+      language: language as ReleaseLanguage,
+      count: words.filter((word) => vocabulary.includes(word)).length + letterCount * 2,
+    };
+  });
+  counts.sort((a, b) => b.count - a.count);
+
+  // One stray word isn't enough, and a tie says nothing
+  const [best, runnerUp] = counts;
+  if (best.count < 2 || best.count === runnerUp.count) return null;
+  return { language: best.language, source: 'words', detail: 'going by the track titles' };
+}
+
+/**
+ * Language of a release country; joint releases like "US & Canada" count when every part agrees
+ */
+function countryLanguage(country: string): ReleaseLanguage | null {
+  const languages = country.split(/\s*(?:&|,)\s*/).map((part) => COUNTRY_LANGUAGES[part] ?? null);
+  const [first] = languages;
+  return first && languages.every((language) => language === first) ? first : null;
+}
+
+/**
+ * Guess the language a release is sung in, or null when there's nothing to go on
+ */
+export function inferReleaseLanguage(item: CollectionItem, releaseData?: ReleaseData): LanguageInference | null {
+  const text = releaseText(item, releaseData);
+  const country = releaseData?.country;
+
+  const fromText = inferFromScript(text, country) ?? inferFromWords(text);
+  if (fromText) return fromText;
+
+  // A Japanese pressing with English titles is usually an English record
+  const hasLatinText = /\p{Script=Latin}/u.test(text);
+  const plausible = (language: ReleaseLanguage) => !(hasLatinText && NON_LATIN_LANGUAGES.includes(language));
+
+  const fromCountry = country ? countryLanguage(country) : null;
+  if (fromCountry && plausible(fromCountry)) {
+    return { language: fromCountry, source: 'country', detail: `released in ${country}` };
+  }
+
+  const labels = releaseData?.labels || item.basic_information.labels || [];
+  for (const label of labels) {
+    const match = LABEL_LANGUAGES.find(({ pattern }) => pattern.test(label.name));
+    if (match && plausible(match.language)) {
+      return { language: match.language, source: 'label', detail: `on ${label.name}` };
+    }
+  }
+
+  return null;
+}
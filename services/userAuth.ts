@@ -6,7 +6,11 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Crypto from 'expo-crypto';
-import { getItem, setItem } from './storage';
+import { getItem, removeItem, setItem } from './storage';
+import { assertLoginAllowed, clearFailedLogins, LoginThrottledError, recordFailedLogin } from './loginThrottle';
+import { accountStorageId, clearStoredTokens, getLinkedAccounts } from './discogsAuth';
+import { clearCachedCollection, clearDownloadProgress } from './collectionCache';
+import { bytesToHex, constantTimeEqual, hexToBytes, pbkdf2Sha256, utf8Encode } from '@/utils/crypto';
 
 export interface User {
   id: string;
@@ -17,20 +21,75 @@ export interface User {
 const USERS_STORAGE_KEY = 'app_users';
 const CURRENT_USER_KEY = 'current_user_id';
 const PASSWORD_PREFIX = 'user_password_';
+// Accounts created through "Sign in with Discogs" get a random password the user never sees
+const DISCOGS_ACCOUNT_EMAIL_DOMAIN = '@discogs.local';
+const MIN_PASSWORD_LENGTH = 6;
+// AsyncStorage key prefixes for per-user data; wipeUserData removes matching keys for the user
+const USER_DATA_KEY_PREFIXES = [
+  'discogs_',
+  'pending_quiz_',
+  'recommendation_preferences_',
+  'listening_history_',
+  'recommendation_log_',
+  'recommendation_set_',
+];
+
+// Stored hashes look like `pbkdf2_sha256$<iterations>$<salt hex>$<hash hex>`
+const PASSWORD_HASH_ALGORITHM = 'pbkdf2_sha256';
+// PBKDF2 runs in pure JS (expo-crypto has no KDF). 60k rounds took about 0.2 s
+// on Node with JIT and 6-8 s with --jitless, the closer stand-in for Hermes;
+// not yet timed on a device. pbkdf2Sha256 yields between short slices, so the
+// UI keeps drawing its spinner meanwhile. Raising this upgrades existing
+// hashes on their next sign-in.
+const PASSWORD_HASH_ITERATIONS = 60000;
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_HASH_BYTES = 32;
+// Checked when there's no real hash to check, so a failed sign-in costs the
+// same whether or not the account exists. No practical password hashes to all zeros.
+const DUMMY_PASSWORD_HASH = [
+  PASSWORD_HASH_ALGORITHM,
+  PASSWORD_HASH_ITERATIONS,
+  '00'.repeat(PASSWORD_SALT_BYTES),
+  '00'.repeat(PASSWORD_HASH_BYTES),
+].join('$');
+// Hashes written before salting: a bare SHA-256 hex digest
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/i;
 
 /**
- * Hash password using SHA-256 (simpler for React Native)
+ * Hash password with PBKDF2-HMAC-SHA256 and a fresh random salt
  */
 async function hashPassword(password: string): Promise<string> {
-  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, password);
+  const salt = await Crypto.getRandomBytesAsync(PASSWORD_SALT_BYTES);
+  const hash = await pbkdf2Sha256(utf8Encode(password), salt, PASSWORD_HASH_ITERATIONS, PASSWORD_HASH_BYTES);
+  return [PASSWORD_HASH_ALGORITHM, PASSWORD_HASH_ITERATIONS, bytesToHex(salt), bytesToHex(hash)].join('$');
 }
 
 /**
- * Verify password
+ * Verify password against a stored hash, in either the current or the legacy format
+ * `needsRehash` is set when the stored hash should be replaced with a fresh one
  */
-async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const passwordHash = await hashPassword(password);
-  return passwordHash === hash;
+async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (LEGACY_SHA256_PATTERN.test(storedHash)) {
+    const legacyHash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, password);
+    const valid = constantTimeEqual(legacyHash.toLowerCase(), storedHash.toLowerCase());
+    return { valid, needsRehash: valid };
+  }
+
+  const [algorithm, iterationsText, saltHex, hashHex] = storedHash.split('$');
+  const iterations = parseInt(iterationsText, 10);
+  const isHex = (value?: string) => !!value && value.length % 2 === 0 && /^[0-9a-f]+$/i.test(value);
+  if (algorithm !== PASSWORD_HASH_ALGORITHM || !(iterations > 0) || !isHex(saltHex) || !isHex(hashHex)) {
+    console.error('Unrecognized password hash format');
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = hexToBytes(hashHex);
+  const hash = await pbkdf2Sha256(utf8Encode(password), hexToBytes(saltHex), iterations, expected.length);
+  const valid = constantTimeEqual(bytesToHex(hash), hashHex.toLowerCase());
+  return { valid, needsRehash: valid && iterations < PASSWORD_HASH_ITERATIONS };
 }
 
 /**
@@ -69,8 +128,8 @@ export async function signUp(email: string, password: string): Promise<User> {
   }
 
   // Validate password
-  if (password.length < 6) {
-    throw new Error('Password must be at least 6 characters');
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
   }
 
   const users = await getUsers();
@@ -104,23 +163,50 @@ export async function signUp(email: string, password: string): Promise<User> {
  * Sign in a user
  */
 export async function signIn(email: string, password: string): Promise<User> {
+  // Refuse early while this email is backed off or locked out
+  await assertLoginAllowed(email);
+
   const users = await getUsers();
 
-  // Find user by email
+  // Unknown emails count as failures too, so throttling doesn't reveal which accounts exist
+  const failSignIn = async (): Promise<never> => {
+    const retryAt = await recordFailedLogin(email);
+    if (retryAt !== null) {
+      throw new LoginThrottledError('Invalid email or password', retryAt);
+    }
+    throw new Error('Invalid email or password');
+  };
+
+  // Find user by email; without one, spend the same hashing time before failing
   const user = Object.values(users).find((u) => u.email.toLowerCase() === email.toLowerCase());
   if (!user) {
-    throw new Error('Invalid email or password');
+    await verifyPassword(password, DUMMY_PASSWORD_HASH);
+    return failSignIn();
   }
 
   // Verify password
   const storedHash = await getItem(`${PASSWORD_PREFIX}${user.id}`);
   if (!storedHash) {
-    throw new Error('Invalid email or password');
+    await verifyPassword(password, DUMMY_PASSWORD_HASH);
+    return failSignIn();
   }
 
-  const isValid = await verifyPassword(password, storedHash);
-  if (!isValid) {
-    throw new Error('Invalid email or password');
+  const { valid, needsRehash } = await verifyPassword(password, storedHash);
+  if (!valid) {
+    return failSignIn();
+  }
+
+  await clearFailedLogins(email);
+
+  // Upgrade legacy or weaker hashes now that we have the plaintext
+  if (needsRehash) {
+    try {
+      await setItem(`${PASSWORD_PREFIX}${user.id}`, await hashPassword(password));
+      console.log('Upgraded stored password hash for user:', user.id);
+    } catch (error) {
+      // The old hash still works, so a failed upgrade shouldn't block sign-in
+      console.error('Error upgrading password hash:', error);
+    }
   }
 
   // Set current user
@@ -162,3 +248,111 @@ export async function isSignedIn(): Promise<boolean> {
   return user !== null;
 }
 
+
+/**
+ * Check whether an account was created through Discogs sign-in and has no user-known password
+ */
+export function isDiscogsAccount(user: User): boolean {
+  return user.email.endsWith(DISCOGS_ACCOUNT_EMAIL_DOMAIN);
+}
+
+/**
+ * Check the current user's password, counting failures against the sign-in throttle
+ */
+async function confirmPassword(user: User, password: string): Promise<void> {
+  await assertLoginAllowed(user.email);
+
+  const storedHash = await getItem(`${PASSWORD_PREFIX}${user.id}`);
+  const { valid } = await verifyPassword(password, storedHash ?? DUMMY_PASSWORD_HASH);
+
+  if (!valid) {
+    const retryAt = await recordFailedLogin(user.email);
+    if (retryAt !== null) {
+      throw new LoginThrottledError('Current password is incorrect', retryAt);
+    }
+    throw new Error('Current password is incorrect');
+  }
+
+  await clearFailedLogins(user.email);
+}
+
+/**
+ * Change the current user's password after checking the old one
+ */
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('Not signed in');
+  }
+
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  await confirmPassword(user, currentPassword);
+  await setItem(`${PASSWORD_PREFIX}${user.id}`, await hashPassword(newPassword));
+  console.log('Password changed for user:', user.id);
+}
+
+/**
+ * Remove everything stored for a user: account entry, password, Discogs
+ * tokens and cached collection data. Signs the user out if they are current.
+ */
+export async function wipeUserData(userId: string): Promise<void> {
+  const users = await getUsers();
+  const user = users[userId];
+
+  await removeItem(`${PASSWORD_PREFIX}${userId}`);
+  for (const account of await getLinkedAccounts(userId)) {
+    await clearCachedCollection(accountStorageId(account));
+    await clearDownloadProgress(accountStorageId(account));
+  }
+  await clearStoredTokens(userId);
+  if (user) {
+    await clearFailedLogins(user.email);
+  }
+
+  // Catch anything else keyed by this user, e.g. the Discogs username the
+  // login screen keeps in AsyncStorage alongside the secure copy
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const userKeys = keys.filter(
+      (key) =>
+        USER_DATA_KEY_PREFIXES.some((prefix) => key.startsWith(prefix)) &&
+        (key.endsWith(`_${userId}`) || key.includes(`_${userId}_`))
+    );
+    if (userKeys.length > 0) {
+      await AsyncStorage.multiRemove(userKeys);
+    }
+  } catch (error) {
+    console.error('Error clearing user data:', error);
+  }
+
+  if (user) {
+    delete users[userId];
+    await saveUsers(users);
+  }
+
+  if ((await AsyncStorage.getItem(CURRENT_USER_KEY)) === userId) {
+    await AsyncStorage.removeItem(CURRENT_USER_KEY);
+  }
+
+  console.log('Wiped all data for user:', userId);
+}
+
+/**
+ * Delete the current user's account and all of their data
+ * Accounts with a user-chosen password must confirm it first
+ */
+export async function deleteAccount(password?: string): Promise<void> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('Not signed in');
+  }
+
+  if (!isDiscogsAccount(user)) {
+    await confirmPassword(user, password ?? '');
+  }
+
+  await wipeUserData(user.id);
+}
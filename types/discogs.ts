@@ -0,0 +1,148 @@
+// Discogs API request and response types, as returned by services/discogsApi.ts
+// Only the fields the app reads are listed; the parsers drop everything else
+
+import { CollectionItem, ReleaseData } from './index';
+
+export interface DiscogsPagination {
+  page: number;
+  pages: number;
+  per_page: number;
+  items: number;
+}
+
+export interface DiscogsPageParams {
+  page?: number;
+  per_page?: number;
+}
+
+export interface DiscogsImage {
+  type: string;
+  uri: string;
+  resource_url: string;
+  uri150: string;
+  width: number;
+  height: number;
+}
+
+export interface DiscogsArtistCredit {
+  id: number;
+  name: string;
+  anv?: string;
+  join?: string;
+  role?: string;
+}
+
+// GET /oauth/identity
+export interface DiscogsIdentity {
+  id: number;
+  username: string;
+  resource_url: string;
+  consumer_name?: string;
+}
+
+// GET /users/{username}
+export interface DiscogsUserProfile {
+  id: number;
+  username: string;
+  resource_url: string;
+  name?: string;
+  location?: string;
+  profile?: string;
+  avatar_url?: string;
+  registered?: string;
+  num_collection?: number;
+  num_wantlist?: number;
+}
+
+// GET /users/{username}/collection/folders
+export interface DiscogsCollectionFolder {
+  id: number;
+  name: string;
+  count: number;
+  resource_url: string;
+}
+
+// GET /users/{username}/collection/fields
+export interface DiscogsCollectionField {
+  id: number;
+  name: string;
+  type: 'dropdown' | 'textarea';
+  position: number;
+  public: boolean;
+  // Choices for dropdown fields
+  options?: string[];
+  lines?: number;
+}
+
+// A custom field value on a collection instance (CollectionItem.notes)
+export interface DiscogsCollectionNote {
+  field_id: number;
+  value: string;
+}
+
+// GET /users/{username}/collection/folders/{folder_id}/releases
+export interface DiscogsCollectionReleasesParams extends DiscogsPageParams {
+  sort?: 'label' | 'artist' | 'title' | 'catno' | 'format' | 'rating' | 'added' | 'year';
+  sort_order?: 'asc' | 'desc';
+}
+
+export interface DiscogsCollectionReleasesPage {
+  pagination: DiscogsPagination;
+  releases: CollectionItem[];
+}
+
+// GET /releases/{release_id}
+export interface DiscogsRelease extends ReleaseData {
+  released?: string;
+  master_id?: number;
+  uri?: string;
+}
+
+// GET /masters/{master_id}
+export interface DiscogsMaster {
+  id: number;
+  title: string;
+  main_release: number;
+  year: number;
+  artists: DiscogsArtistCredit[];
+  genres: string[];
+  styles: string[];
+  tracklist: ReleaseData['tracklist'];
+  images: DiscogsImage[];
+}
+
+// GET /artists/{artist_id}
+export interface DiscogsArtist {
+  id: number;
+  name: string;
+  realname?: string;
+  profile?: string;
+  images: DiscogsImage[];
+  urls: string[];
+  members?: Array<{ id: number; name: string; active: boolean }>;
+}
+
+// GET /labels/{label_id}
+export interface DiscogsLabel {
+  id: number;
+  name: string;
+  profile?: string;
+  contact_info?: string;
+  images: DiscogsImage[];
+  parent_label?: { id: number; name: string };
+  sublabels: Array<{ id: number; name: string }>;
+}
+
+// GET /users/{username}/wants
+export interface DiscogsWant {
+  id: number;
+  rating: number;
+  date_added?: string;
+  notes?: string;
+  basic_information: CollectionItem['basic_information'];
+}
+
+export interface DiscogsWantlistPage {
+  pagination: DiscogsPagination;
+  wants: DiscogsWant[];
+}
@@ -1,3 +1,5 @@
+import { DiscogsCollectionNote } from './discogs';
+
 // Quiz answer types
 export interface QuizAnswers {
   mood: 'energetic' | 'relaxed' | 'melancholic' | 'happy' | 'aggressive' | 'peaceful';
@@ -6,6 +8,33 @@ export interface QuizAnswers {
   decade: '1960s' | '1970s' | '1980s' | '1990s' | '2000s' | '2010s' | '2020s' | 'any';
   format: 'album' | 'single' | 'both';
   language: 'english' | 'spanish' | 'french' | 'german' | 'italian' | 'portuguese' | 'japanese' | 'korean' | 'chinese' | 'all';
+  // Discogs usernames whose collections to draw from; defaults to the active account
+  accounts?: string[];
+  // Collection folders to draw from; empty or missing means every folder
+  folders?: CollectionFolderRef[];
+  // 0 always goes for the best match, 1 picks far more loosely; defaults to 0.5
+  surprise?: number;
+}
+
+// A Discogs identity linked to a local user
+export interface DiscogsAccount {
+  userId: string;
+  username: string;
+}
+
+// A folder in one linked account's collection
+export interface CollectionFolderRef {
+  account: string;
+  folderId: number;
+}
+
+// Collection custom field values, mapped from CollectionItem.notes by field name
+export interface CollectionCustomFields {
+  mediaCondition?: string;
+  sleeveCondition?: string;
+  notes?: string;
+  // Any other custom fields, keyed by field name
+  other: Record<string, string>;
 }
 
 // Discogs collection item
@@ -14,6 +43,13 @@ export interface CollectionItem {
   instance_id: number;
   date_added: string;
   rating: number;
+  // Collection folder the instance is filed in (never 0, which is the "All" view)
+  folder_id: number;
+  // Discogs username of the collection this item came from
+  account?: string;
+  // Raw custom field values as Discogs returns them
+  notes?: DiscogsCollectionNote[];
+  custom_fields?: CollectionCustomFields;
   basic_information: {
     id: number;
     master_id: number | null;
@@ -81,6 +117,33 @@ export interface ReleaseData {
     catno: string;
   }>;
   notes?: string;
+  // Country the release was issued in, e.g. "Japan" or "UK & Europe"
+  country?: string;
+}
+
+// What a match score is made of; 'history' is the cool-down adjustment
+export type ScoreCriterion =
+  | 'genre'
+  | 'decade'
+  | 'mood'
+  | 'tempo'
+  | 'language'
+  | 'format'
+  | 'rating'
+  | 'recency'
+  | 'history';
+
+// One criterion's share of a match score
+export interface ScoreFactor {
+  criterion: ScoreCriterion;
+  label: string;
+  // Share of the whole score this criterion can be worth (0-1); 0 for adjustments
+  weight: number;
+  // Points earned; negative for a cool-down penalty
+  points: number;
+  possible: number;
+  // What matched or didn't, e.g. "Thrash is in Metal"
+  evidence: string;
 }
 
 // Recommendation result
@@ -89,5 +152,9 @@ export interface Recommendation {
   releaseData: ReleaseData;
   matchScore: number;
   reasons: string[];
+  breakdown: ScoreFactor[];
 }
 
+
+// Discogs API response types
+export * from './discogs';
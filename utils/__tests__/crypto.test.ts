@@ -0,0 +1,27 @@
+import { bytesToHex, pbkdf2Sha256, utf8Encode } from '@/utils/crypto';
+
+describe('pbkdf2Sha256', () => {
+  // RFC 7914 section 11
+  it('matches the RFC 7914 PBKDF2-HMAC-SHA256 vectors', async () => {
+    expect(bytesToHex(await pbkdf2Sha256(utf8Encode('passwd'), utf8Encode('salt'), 1, 64))).toBe(
+      '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783'
+    );
+    expect(bytesToHex(await pbkdf2Sha256(utf8Encode('Password'), utf8Encode('NaCl'), 80000, 64))).toBe(
+      '4ddcd8f60b98be21830cee5ef22701f9641a4418d04c0414aeff08876b34ab56a1d425a1225833549adb841b51c9b3176a272bdebba1d078478f62b397f33c8d'
+    );
+  });
+
+  it('truncates to a key length that is not a whole block', async () => {
+    expect(bytesToHex(await pbkdf2Sha256(utf8Encode('passwd'), utf8Encode('salt'), 1, 20))).toBe(
+      '55ac046e56e3089fec1691c22544b605f9418521'
+    );
+  });
+
+  it('lets timers run while it works', async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 1);
+    await pbkdf2Sha256(utf8Encode('Password'), utf8Encode('NaCl'), 80000, 32);
+    clearInterval(timer);
+    expect(ticks).toBeGreaterThan(0);
+  });
+});
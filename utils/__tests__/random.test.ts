@@ -0,0 +1,37 @@
+import { createRandom, pickWeighted } from '@/utils/random';
+
+describe('createRandom', () => {
+  it('follows the mulberry32 sequence when seeded', () => {
+    const random = createRandom(1);
+    expect([random(), random(), random()]).toEqual([0.6270739405881613, 0.002735721180215478, 0.5274470399599522]);
+  });
+
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    expect(Array.from({ length: 5 }, a)).toEqual(Array.from({ length: 5 }, b));
+  });
+
+  it('falls back to Math.random without a seed', () => {
+    expect(createRandom()).toBe(Math.random);
+  });
+});
+
+describe('pickWeighted', () => {
+  it('returns -1 when no weight is positive', () => {
+    expect(pickWeighted([])).toBe(-1);
+    expect(pickWeighted([0, 0])).toBe(-1);
+    expect(pickWeighted([-1, 0, -3])).toBe(-1);
+  });
+
+  it('never picks a zero or negative weight', () => {
+    expect(pickWeighted([0, -2, 5, 0], () => 0)).toBe(2);
+    expect(pickWeighted([0, -2, 5, 0], () => 0.999999)).toBe(2);
+  });
+
+  it('picks in proportion to the weights', () => {
+    // A quarter of the range goes to the first weight, the rest to the second
+    expect(pickWeighted([1, 3], () => 0.2)).toBe(0);
+    expect(pickWeighted([1, 3], () => 0.3)).toBe(1);
+  });
+});
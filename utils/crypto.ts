@@ -0,0 +1,418 @@
+/**
+ * Pure-JS hashing helpers
+ * expo-crypto only exposes plain digests, so keyed hashes and key
+ * derivation are built here
+ */
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+export function utf8Encode(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    let codePoint = value.charCodeAt(i);
+
+    // Combine surrogate pairs into a single code point
+    if (codePoint >= 0xd800 && codePoint <= 0xdbff && i + 1 < value.length) {
+      const next = value.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        codePoint = 0x10000 + ((codePoint - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode bytes as standard (padded) base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (b0 << 16) | (b1 << 8) | b2;
+
+    output += BASE64_ALPHABET[(triple >> 18) & 0x3f];
+    output += BASE64_ALPHABET[(triple >> 12) & 0x3f];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 0x3f] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[triple & 0x3f] : '=';
+  }
+  return output;
+}
+
+/**
+ * SHA-1 digest (FIPS 180-4)
+ */
+export function sha1(message: Uint8Array): Uint8Array {
+  const bitLength = message.length * 8;
+  // Message + 0x80 + zero padding + 64-bit length, rounded up to 64-byte blocks
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  let h0 = 0x67452301;
+  let h1 = 0xefcdab89;
+  let h2 = 0x98badcfe;
+  let h3 = 0x10325476;
+  let h4 = 0xc3d2e1f0;
+  const w = new Uint32Array(80);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let t = 0; t < 16; t++) {
+      w[t] = view.getUint32(offset + t * 4);
+    }
+    for (let t = 16; t < 80; t++) {
+      const x = w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16];
+      w[t] = (x << 1) | (x >>> 31);
+    }
+
+    let a = h0;
+    let b = h1;
+    let c = h2;
+    let d = h3;
+    let e = h4;
+
+    for (let t = 0; t < 80; t++) {
+      let f: number;
+      let k: number;
+      if (t < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (t < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (t < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[t]) >>> 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+
+    h0 = (h0 + a) >>> 0;
+    h1 = (h1 + b) >>> 0;
+    h2 = (h2 + c) >>> 0;
+    h3 = (h3 + d) >>> 0;
+    h4 = (h4 + e) >>> 0;
+  }
+
+  const digest = new Uint8Array(20);
+  const digestView = new DataView(digest.buffer);
+  [h0, h1, h2, h3, h4].forEach((h, i) => digestView.setUint32(i * 4, h));
+  return digest;
+}
+
+/**
+ * HMAC-SHA1 (RFC 2104)
+ */
+export function hmacSha1(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const BLOCK_SIZE = 64;
+  const blockKey = new Uint8Array(BLOCK_SIZE);
+  blockKey.set(key.length > BLOCK_SIZE ? sha1(key) : key);
+
+  const inner = new Uint8Array(BLOCK_SIZE + message.length);
+  const outer = new Uint8Array(BLOCK_SIZE + 20);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    inner[i] = blockKey[i] ^ 0x36;
+    outer[i] = blockKey[i] ^ 0x5c;
+  }
+  inner.set(message, BLOCK_SIZE);
+  outer.set(sha1(inner), BLOCK_SIZE);
+
+  return sha1(outer);
+}
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i++) {
+    output += bytes[i].toString(16).padStart(2, '0');
+  }
+  return output;
+}
+
+/**
+ * Decode a hex string into bytes
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Compare two strings without exiting early on the first difference
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const SHA256_IV = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+/**
+ * Run the SHA-256 compression function over one 64-byte block, updating `state` in place
+ */
+function sha256Block(state: Uint32Array, w: Uint32Array, block: DataView, offset: number): void {
+  for (let t = 0; t < 16; t++) {
+    w[t] = block.getUint32(offset + t * 4);
+  }
+  sha256Compress(state, w);
+}
+
+/**
+ * SHA-256 compression over a block already loaded into the first 16 words of `w`
+ */
+function sha256Compress(state: Uint32Array, w: Uint32Array): void {
+  for (let t = 16; t < 64; t++) {
+    const x = w[t - 15];
+    const y = w[t - 2];
+    const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+    const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+    w[t] = (w[t - 16] + s0 + w[t - 7] + s1) >>> 0;
+  }
+
+  let a = state[0];
+  let b = state[1];
+  let c = state[2];
+  let d = state[3];
+  let e = state[4];
+  let f = state[5];
+  let g = state[6];
+  let h = state[7];
+
+  for (let t = 0; t < 64; t++) {
+    const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+    const ch = (e & f) ^ (~e & g);
+    const temp1 = (h + S1 + ch + SHA256_K[t] + w[t]) >>> 0;
+    const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+    const maj = (a & b) ^ (a & c) ^ (b & c);
+    const temp2 = (S0 + maj) >>> 0;
+
+    h = g;
+    g = f;
+    f = e;
+    e = (d + temp1) >>> 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (temp1 + temp2) >>> 0;
+  }
+
+  state[0] = (state[0] + a) >>> 0;
+  state[1] = (state[1] + b) >>> 0;
+  state[2] = (state[2] + c) >>> 0;
+  state[3] = (state[3] + d) >>> 0;
+  state[4] = (state[4] + e) >>> 0;
+  state[5] = (state[5] + f) >>> 0;
+  state[6] = (state[6] + g) >>> 0;
+  state[7] = (state[7] + h) >>> 0;
+}
+
+/**
+ * Finish a SHA-256 digest from an intermediate state
+ * `prefixLength` is the number of bytes already absorbed into `initialState`
+ */
+function sha256From(initialState: ArrayLike<number>, message: Uint8Array, prefixLength: number): Uint8Array {
+  const bitLength = (prefixLength + message.length) * 8;
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const state = new Uint32Array(initialState);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    sha256Block(state, w, view, offset);
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  state.forEach((h, i) => digestView.setUint32(i * 4, h));
+  return digest;
+}
+
+/**
+ * SHA-256 digest (FIPS 180-4)
+ */
+export function sha256(message: Uint8Array): Uint8Array {
+  return sha256From(SHA256_IV, message, 0);
+}
+
+/**
+ * Absorb one 64-byte key pad into a fresh SHA-256 state
+ * HMAC's inner and outer pads never change for a key, so PBKDF2 hashes them once
+ */
+function sha256PadState(blockKey: Uint8Array, pad: number): Uint32Array {
+  const block = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    block[i] = blockKey[i] ^ pad;
+  }
+  const state = new Uint32Array(SHA256_IV);
+  sha256Block(state, new Uint32Array(64), new DataView(block.buffer), 0);
+  return state;
+}
+
+/**
+ * Prepare the inner and outer HMAC-SHA256 states for a key
+ */
+function hmacSha256States(key: Uint8Array): { inner: Uint32Array; outer: Uint32Array } {
+  const blockKey = new Uint8Array(64);
+  blockKey.set(key.length > 64 ? sha256(key) : key);
+  return {
+    inner: sha256PadState(blockKey, 0x36),
+    outer: sha256PadState(blockKey, 0x5c),
+  };
+}
+
+/**
+ * HMAC-SHA256 (RFC 2104)
+ */
+export function hmacSha256(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const { inner, outer } = hmacSha256States(key);
+  return sha256From(outer, sha256From(inner, message, 64), 64);
+}
+
+// Longest stretch (ms) PBKDF2 runs before yielding, so the UI keeps drawing frames
+const PBKDF2_SLICE_MS = 12;
+// Iterations between clock checks
+const PBKDF2_CHECK_INTERVAL = 64;
+
+/**
+ * Let pending UI work and timers run before carrying on
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * PBKDF2 with HMAC-SHA256 as the PRF (RFC 8018 section 5.2)
+ * Runs in short slices that yield to the event loop, so hashing a password
+ * doesn't freeze the UI while it works.
+ */
+export async function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  keyLength: number
+): Promise<Uint8Array> {
+  if (iterations < 1 || keyLength < 1) {
+    throw new Error('PBKDF2 needs at least one iteration and one byte of output');
+  }
+
+  const { inner, outer } = hmacSha256States(password);
+  const output = new Uint8Array(keyLength);
+  const blockCount = Math.ceil(keyLength / 32);
+
+  // Every U after the first is HMAC over a 32-byte digest, which pads to exactly
+  // one block: the digest, 0x80, zeros, and the bit length with the 64-byte key pad.
+  // The block is filled word by word, skipping byte conversions between rounds.
+  const state = new Uint32Array(8);
+  const w = new Uint32Array(64);
+  const hashDigest = (initialState: Uint32Array) => {
+    for (let j = 0; j < 8; j++) {
+      w[j] = state[j];
+    }
+    w[8] = 0x80000000;
+    w.fill(0, 9, 15);
+    w[15] = (64 + 32) * 8;
+    state.set(initialState);
+    sha256Compress(state, w);
+  };
+
+  let sliceStart = Date.now();
+  for (let blockIndex = 1; blockIndex <= blockCount; blockIndex++) {
+    // U1 = PRF(password, salt || INT(blockIndex))
+    const saltBlock = new Uint8Array(salt.length + 4);
+    saltBlock.set(salt);
+    new DataView(saltBlock.buffer).setUint32(salt.length, blockIndex);
+
+    const u1 = new DataView(sha256From(outer, sha256From(inner, saltBlock, 64), 64).buffer);
+    for (let j = 0; j < 8; j++) {
+      state[j] = u1.getUint32(j * 4);
+    }
+    const block = state.slice();
+
+    for (let i = 1; i < iterations; i++) {
+      hashDigest(inner);
+      hashDigest(outer);
+      for (let j = 0; j < 8; j++) {
+        block[j] ^= state[j];
+      }
+
+      if (i % PBKDF2_CHECK_INTERVAL === 0 && Date.now() - sliceStart >= PBKDF2_SLICE_MS) {
+        await yieldToEventLoop();
+        sliceStart = Date.now();
+      }
+    }
+
+    const offset = (blockIndex - 1) * 32;
+    const blockBytes = new Uint8Array(32);
+    const blockView = new DataView(blockBytes.buffer);
+    block.forEach((word, j) => blockView.setUint32(j * 4, word));
+    output.set(blockBytes.subarray(0, Math.min(32, keyLength - offset)), offset);
+  }
+
+  return output;
+}
@@ -0,0 +1,45 @@
+/**
+ * Random number helpers
+ * A seed gives a repeatable sequence so a pick can be reproduced
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Create a source of floats in [0, 1): mulberry32 when seeded, Math.random otherwise
+ */
+export function createRandom(seed?: number): RandomSource {
+  if (seed === undefined) {
+    return Math.random;
+  }
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick an index with probability proportional to its weight
+ * Returns -1 when no weight is positive
+ */
+export function pickWeighted(weights: number[], random: RandomSource = Math.random): number {
+  const total = weights.reduce((sum, weight) => sum + (weight > 0 ? weight : 0), 0);
+  if (total <= 0) return -1;
+
+  let target = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    if (weights[i] <= 0) continue;
+    target -= weights[i];
+    if (target < 0) return i;
+  }
+  // Floating-point leftovers land on the last positive weight
+  for (let i = weights.length - 1; i >= 0; i--) {
+    if (weights[i] > 0) return i;
+  }
+  return -1;
+}